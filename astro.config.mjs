@@ -1,10 +1,20 @@
 import { defineConfig } from 'astro/config';
 import mdx from '@astrojs/mdx';
+import styleLint from './src/integrations/styleLint';
+import sitemap from './src/integrations/sitemap';
+import confidentialityGuard from './src/integrations/confidentialityGuard';
 
 // https://astro.build/config
 export default defineConfig({
   site: 'https://sinkyl.dev',
-  integrations: [mdx()],
+  integrations: [mdx(), styleLint(), confidentialityGuard(), sitemap()],
+  i18n: {
+    locales: ['en', 'tr'],
+    defaultLocale: 'en',
+    routing: {
+      prefixDefaultLocale: false,
+    },
+  },
   markdown: {
     shikiConfig: {
       theme: 'one-dark-pro',
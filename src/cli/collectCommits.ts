@@ -0,0 +1,45 @@
+/**
+ * Collect commits
+ * Writes a repo's commits for a date range as `=== COMMIT ===` blocks
+ *
+ * Usage: pnpm collect-commits [--repo <dir>] [--since YYYY-MM-DD] [--until YYYY-MM-DD] [--out <file>]
+ *   --repo   git repo to read (default: current directory)
+ *   --since  first day, inclusive (default: six days before --until)
+ *   --until  last day, inclusive (default: today in WEEKS.timeZone)
+ *   --out    output file, or - for stdout (default: commits_output.txt)
+ */
+
+import { writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { formatCommitBlocks, readCommits, resolveDateRange } from '../lib/devlog';
+
+const DEFAULT_OUTPUT = 'commits_output.txt';
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      repo: { type: 'string', default: '.' },
+      since: { type: 'string' },
+      until: { type: 'string' },
+      out: { type: 'string', default: DEFAULT_OUTPUT },
+    },
+  });
+
+  const range = resolveDateRange({ since: values.since, until: values.until });
+  const commits = await readCommits(path.resolve(values.repo), range);
+  const blocks = formatCommitBlocks(commits);
+
+  if (values.out === '-') {
+    process.stdout.write(blocks);
+    return;
+  }
+
+  await writeFile(values.out, blocks);
+  console.log(`${commits.length} commit${commits.length !== 1 ? 's' : ''} from ${range.since} to ${range.until} → ${values.out}`);
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
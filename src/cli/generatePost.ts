@@ -0,0 +1,121 @@
+/**
+ * Generate post
+ * Builds the weekly prompt from collected commits, sends it to a model provider
+ * and writes the answer as a draft post in src/content/blog
+ * Refuses to run while any commit has trailer errors (see pnpm lint:commits)
+ *
+ * Usage: pnpm generate-post [--project <id>] [--repo <dir>] [--input <file>] [--since YYYY-MM-DD] [--until YYYY-MM-DD]
+ *          [--title <text>] [--provider stub|command] [--command <cmd>] [--prompt <file>] [--force]
+ *   --project  id of a file in src/content/projects (default: inferred from --repo)
+ *   --repo     repo the commits came from, used to infer --project (default: current directory)
+ *   --input    commit blocks from collect-commits (default: commits_output.txt)
+ *   --since    first day of the week (default: six days before --until)
+ *   --until    post date (default: today in WEEKS.timeZone)
+ *   --provider stub renders the draft skeleton offline; command pipes the prompt to --command (default: stub)
+ *   --command  shell command that reads the prompt on stdin and prints the post
+ *   --prompt   also save the assembled prompt to this file
+ *   --force    overwrite an existing draft
+ */
+
+import { readFile, readdir, writeFile } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { parse } from 'yaml';
+import { buildCanonicalTaxonomy, type CanonicalTaxonomyFile } from '../lib/taxonomyLint';
+import {
+  buildPrompt,
+  collectTechTerms,
+  createProvider,
+  finalizeGeneratedPost,
+  getDraftFileName,
+  hasErrors,
+  inferProject,
+  isPostable,
+  isProviderName,
+  parseCommit,
+  parseCommitBlocks,
+  resolveDateRange,
+  PROVIDER_NAMES,
+  type DraftPostInput,
+  type ProjectRef,
+} from '../lib/devlog';
+
+const ROOT = fileURLToPath(new URL('../..', import.meta.url));
+const BLOG_DIR = path.join(ROOT, 'src/content/blog');
+const PROJECTS_DIR = path.join(ROOT, 'src/content/projects');
+const TAXONOMY_FILE = path.join(ROOT, 'src/data/taxonomy.yaml');
+const PROMPT_TEMPLATE = path.join(ROOT, 'weekly_prompt.txt');
+const DEFAULT_INPUT = 'commits_output.txt';
+
+async function loadProjects(): Promise<ProjectRef[]> {
+  const files = (await readdir(PROJECTS_DIR)).filter(name => name.endsWith('.yaml'));
+  return Promise.all(files.map(async name => {
+    const data = parse(await readFile(path.join(PROJECTS_DIR, name), 'utf8')) as { name: string };
+    return { id: path.basename(name, '.yaml'), name: data.name };
+  }));
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      project: { type: 'string' },
+      repo: { type: 'string', default: '.' },
+      input: { type: 'string', default: DEFAULT_INPUT },
+      since: { type: 'string' },
+      until: { type: 'string' },
+      title: { type: 'string' },
+      provider: { type: 'string', default: 'stub' },
+      command: { type: 'string' },
+      prompt: { type: 'string' },
+      force: { type: 'boolean', default: false },
+    },
+  });
+
+  if (!isProviderName(values.provider)) {
+    throw new Error(`Unknown provider "${values.provider}" (expected ${PROVIDER_NAMES.join('|')})`);
+  }
+  const provider = createProvider(values.provider, { command: values.command });
+
+  const projects = await loadProjects();
+  const project = values.project ?? await inferProject(values.repo, projects);
+  if (!project) {
+    throw new Error(`Could not infer the project from ${path.resolve(values.repo)}; pass --project <${projects.map(p => p.id).join('|')}>`);
+  }
+  if (!projects.some(p => p.id === project)) {
+    throw new Error(`Unknown project "${project}" (no src/content/projects/${project}.yaml)`);
+  }
+
+  const range = resolveDateRange({ since: values.since, until: values.until });
+  const commits = parseCommitBlocks(await readFile(values.input, 'utf8')).map(parseCommit);
+  const invalid = commits.filter(commit => hasErrors(commit.issues));
+  if (invalid.length > 0) {
+    throw new Error(`${invalid.length} commit${invalid.length !== 1 ? 's have' : ' has'} invalid trailers; run pnpm lint:commits --input ${values.input}`);
+  }
+
+  const taxonomy = buildCanonicalTaxonomy(parse(await readFile(TAXONOMY_FILE, 'utf8')) as CanonicalTaxonomyFile);
+  for (const issue of collectTechTerms(commits, taxonomy).unknown) {
+    console.log(`new ${issue.taxonomy} term "${issue.term}"` +
+      (issue.suggestions.length > 0 ? ` (did you mean ${issue.suggestions.map(s => `"${s}"`).join(', ')}?)` : ''));
+  }
+
+  const draft: DraftPostInput = { commits, range, project, title: values.title, taxonomy };
+  const prompt = buildPrompt(await readFile(PROMPT_TEMPLATE, 'utf8'), commits, range);
+  if (values.prompt) await writeFile(values.prompt, prompt);
+
+  const file = path.join(BLOG_DIR, getDraftFileName(range, project));
+  const output = await provider.generate({ prompt, draft });
+  await writeFile(file, finalizeGeneratedPost(output, draft), {
+    flag: values.force ? 'w' : 'wx',
+  }).catch((error: NodeJS.ErrnoException) => {
+    throw error.code === 'EEXIST' ? new Error(`${path.relative(ROOT, file)} already exists (use --force to overwrite)`) : error;
+  });
+
+  const count = commits.filter(isPostable).length;
+  console.log(`Draft with ${count} commit${count !== 1 ? 's' : ''} (${provider.name}) → ${path.relative(ROOT, file)}`);
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,46 @@
+/**
+ * Commit trailer lint
+ * Validates the trailers in collected commit blocks before they reach the prompt
+ *
+ * Usage: pnpm lint:commits [--input <file>]
+ *   --input  commit blocks from collect-commits (default: commits_output.txt)
+ */
+
+import { readFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { hasErrors, parseCommit, parseCommitBlocks } from '../lib/devlog';
+
+const DEFAULT_INPUT = 'commits_output.txt';
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      input: { type: 'string', default: DEFAULT_INPUT },
+    },
+  });
+
+  const commits = parseCommitBlocks(await readFile(values.input, 'utf8')).map(parseCommit);
+
+  let errorCount = 0;
+  let warningCount = 0;
+  for (const commit of commits) {
+    for (const issue of commit.issues) {
+      console.log(`${values.input}:${issue.line}  ${commit.hash.slice(0, 8)}  ${issue.severity}  ${issue.message}`);
+      if (issue.severity === 'error') errorCount++;
+      else warningCount++;
+    }
+  }
+
+  if (errorCount === 0 && warningCount === 0) {
+    console.log(`${commits.length} commits checked, no trailer issues.`);
+    return;
+  }
+
+  console.log(`\n${errorCount} error${errorCount !== 1 ? 's' : ''}, ${warningCount} warning${warningCount !== 1 ? 's' : ''} in ${commits.length} commits`);
+  if (commits.some(commit => hasErrors(commit.issues))) process.exitCode = 1;
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
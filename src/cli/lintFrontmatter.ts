@@ -0,0 +1,128 @@
+/**
+ * Frontmatter lint
+ * Checks every blog post's taxonomy terms against src/data/taxonomy.yaml
+ *
+ * Usage: pnpm lint:frontmatter [--fix]
+ *   --fix  rewrite aliases, casing and near-duplicates to their canonical spelling
+ */
+
+import { readFile, readdir, writeFile } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+import path from 'node:path';
+import { LineCounter, parse, parseDocument, isSeq } from 'yaml';
+import { TAXONOMY_KEYS } from '../lib/taxonomy';
+import {
+  buildCanonicalTaxonomy,
+  fixTerms,
+  isFixable,
+  lintTerms,
+  type CanonicalTaxonomyFile,
+  type TermIssue,
+} from '../lib/taxonomyLint';
+
+const ROOT = fileURLToPath(new URL('../..', import.meta.url));
+const BLOG_DIR = path.join(ROOT, 'src/content/blog');
+const TAXONOMY_FILE = path.join(ROOT, 'src/data/taxonomy.yaml');
+const FRONTMATTER = /^---\r?\n([\s\S]*?)\r?\n---/;
+
+interface PostReport {
+  file: string;
+  issues: { issue: TermIssue; line: number }[];
+  fixed: boolean;
+}
+
+function describe(issue: TermIssue): string {
+  switch (issue.kind) {
+    case 'alias':
+    case 'casing':
+    case 'near-duplicate':
+      return `"${issue.term}" → "${issue.replacement}" (${issue.kind})`;
+    case 'duplicate':
+      return `"${issue.term}" repeats an earlier term (duplicate)`;
+    case 'unknown':
+      return issue.suggestions.length > 0
+        ? `"${issue.term}" is not in the taxonomy (did you mean ${issue.suggestions.map(s => `"${s}"`).join(', ')}?)`
+        : `"${issue.term}" is not in the taxonomy`;
+  }
+}
+
+async function lintPost(file: string, canonical: ReturnType<typeof buildCanonicalTaxonomy>, fix: boolean): Promise<PostReport> {
+  const source = await readFile(file, 'utf8');
+  const match = source.match(FRONTMATTER);
+  const report: PostReport = { file, issues: [], fixed: false };
+  if (!match) return report;
+
+  const lineCounter = new LineCounter();
+  const doc = parseDocument(match[1], { lineCounter });
+
+  for (const taxonomy of TAXONOMY_KEYS) {
+    const node = doc.get(taxonomy, true);
+    if (!isSeq(node)) continue;
+
+    const terms = node.items.map(item => String((item as { value?: unknown }).value ?? item));
+    const issues = lintTerms(taxonomy, terms, canonical);
+    // +1 for the opening --- line
+    const line = lineCounter.linePos(node.range?.[0] ?? 0).line + 1;
+
+    if (fix && issues.some(isFixable)) {
+      const replacement = doc.createNode(fixTerms(terms, issues));
+      replacement.flow = node.flow;
+      doc.set(taxonomy, replacement);
+      report.fixed = true;
+    }
+
+    const remaining = fix ? issues.filter(issue => !isFixable(issue)) : issues;
+    report.issues.push(...remaining.map(issue => ({ issue, line })));
+  }
+
+  if (report.fixed) {
+    const frontmatter = doc.toString({ lineWidth: 0, flowCollectionPadding: false }).trimEnd();
+    await writeFile(file, source.replace(match[1], () => frontmatter));
+  }
+
+  return report;
+}
+
+async function main() {
+  const fix = process.argv.includes('--fix');
+  const canonical = buildCanonicalTaxonomy(parse(await readFile(TAXONOMY_FILE, 'utf8')) as CanonicalTaxonomyFile);
+
+  // Translations live in blog/<lang>/
+  const files = (await readdir(BLOG_DIR, { recursive: true }))
+    .filter(name => name.endsWith('.md') || name.endsWith('.mdx'))
+    .sort()
+    .map(name => path.join(BLOG_DIR, name));
+
+  const reports = await Promise.all(files.map(file => lintPost(file, canonical, fix)));
+
+  let issueCount = 0;
+  let fixableCount = 0;
+  for (const { file, issues, fixed } of reports) {
+    const relative = path.relative(ROOT, file);
+    if (fixed) console.log(`fixed   ${relative}`);
+    for (const { issue, line } of issues) {
+      console.log(`${relative}:${line}  ${issue.taxonomy}  ${describe(issue)}`);
+      issueCount++;
+      if (isFixable(issue)) fixableCount++;
+    }
+  }
+
+  const fixedCount = reports.filter(report => report.fixed).length;
+  if (fix && fixedCount > 0) {
+    console.log(`\nRewrote ${fixedCount} post${fixedCount !== 1 ? 's' : ''}.`);
+  }
+
+  if (issueCount === 0) {
+    console.log(`${files.length} posts checked, no taxonomy issues.`);
+    return;
+  }
+
+  console.log(`\n${issueCount} issue${issueCount !== 1 ? 's' : ''} in ${files.length} posts` +
+    (fixableCount > 0 ? `, ${fixableCount} fixable with --fix` : ''));
+  process.exitCode = 1;
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
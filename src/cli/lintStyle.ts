@@ -0,0 +1,38 @@
+/**
+ * Post style lint
+ * Checks weekly posts against the writing rules (length, snippet size, enumerations, brands)
+ *
+ * Usage: pnpm lint:style [--strict]
+ *   --strict  exit non-zero when any post has issues (default: report only)
+ */
+
+import { fileURLToPath } from 'node:url';
+import { formatStyleIssue, lintBlogPosts } from '../integrations/styleLint';
+
+const ROOT = fileURLToPath(new URL('../..', import.meta.url));
+
+async function main() {
+  const strict = process.argv.includes('--strict');
+  const reports = await lintBlogPosts(ROOT);
+
+  let issueCount = 0;
+  for (const { file, issues } of reports) {
+    for (const issue of issues) {
+      console.log(formatStyleIssue(file, issue));
+      issueCount++;
+    }
+  }
+
+  if (issueCount === 0) {
+    console.log('No style issues.');
+    return;
+  }
+
+  console.log(`\n${issueCount} issue${issueCount !== 1 ? 's' : ''} in ${reports.length} post${reports.length !== 1 ? 's' : ''}`);
+  if (strict) process.exitCode = 1;
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,68 @@
+/**
+ * publish-post tests
+ * Runs the CLI on a throwaway post and commit input
+ */
+
+import assert from 'node:assert/strict';
+import { execFile } from 'node:child_process';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { promisify } from 'node:util';
+import { after, before, describe, it } from 'node:test';
+import { formatCommitBlocks } from '../lib/devlog';
+
+const execFileAsync = promisify(execFile);
+const CLI = fileURLToPath(new URL('./publishPost.ts', import.meta.url));
+
+const COMMITS = formatCommitBlocks([{
+  hash: 'b2c3d4e5f60718293a4b5c6d7e8f901234567890',
+  subject: 'feat(billing): usage export',
+  body: 'Confidentiality: redact\nRedact-Notes: do not name "Acme Corp"',
+}]);
+
+async function publish(...args: string[]): Promise<{ code: number; stdout: string }> {
+  try {
+    const { stdout } = await execFileAsync(process.execPath, ['--import', 'tsx', CLI, ...args]);
+    return { code: 0, stdout };
+  } catch (error) {
+    const { code, stdout } = error as { code: number; stdout: string };
+    return { code, stdout };
+  }
+}
+
+describe('publish-post', () => {
+  let dir: string;
+  let input: string;
+
+  before(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'devlog-publish-'));
+    input = path.join(dir, 'commits.txt');
+    await writeFile(input, COMMITS);
+  });
+
+  after(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('keeps a post with findings in draft and exits non-zero', async () => {
+    const file = path.join(dir, 'leaky.md');
+    const source = '---\ntitle: Week\ndraft: true\n---\n\nBuilt for Acme Corp.\n';
+    await writeFile(file, source);
+
+    const { code, stdout } = await publish(file, '--input', input);
+    assert.equal(code, 1);
+    assert.match(stdout, /:6 {2}redact-note {2}"Acme Corp"/);
+    assert.equal(await readFile(file, 'utf8'), source);
+  });
+
+  it('clears the draft flag once the post is clean, keeping $ in the frontmatter', async () => {
+    const file = path.join(dir, 'clean.md');
+    await writeFile(file, '---\ntitle: "Cutting $$ and $& costs"\ndraft: true\n---\n\nShipped the export.\n');
+
+    const { code } = await publish(file, '--input', input);
+    assert.equal(code, 0);
+    assert.equal(await readFile(file, 'utf8'), '---\ntitle: "Cutting $$ and $& costs"\n---\n\nShipped the export.\n');
+  });
+});
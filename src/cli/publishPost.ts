@@ -0,0 +1,73 @@
+/**
+ * Publish post
+ * Runs the confidentiality guard on a generated post and only clears `draft: true`
+ * once every finding is resolved or listed in the post's confidentialityWaivers
+ * (the build re-checks published posts generated from the same input, see integrations/confidentialityGuard)
+ *
+ * Usage: pnpm publish-post <post.md> [--input <file>] [--check]
+ *   --input  commit blocks the post was generated from (default: commits_output.txt)
+ *   --check  report findings without touching the post
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { parseDocument } from 'yaml';
+import { checkConfidentiality, parseCommit, parseCommitBlocks } from '../lib/devlog';
+
+const DEFAULT_INPUT = 'commits_output.txt';
+const FRONTMATTER = /^---\r?\n([\s\S]*?)\r?\n---/;
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      input: { type: 'string', default: DEFAULT_INPUT },
+      check: { type: 'boolean', default: false },
+    },
+  });
+
+  const [file] = positionals;
+  if (!file) throw new Error('Missing post file (pnpm publish-post <post.md>)');
+
+  const source = await readFile(file, 'utf8');
+  const match = source.match(FRONTMATTER);
+  if (!match) throw new Error(`${file} has no frontmatter`);
+
+  const doc = parseDocument(match[1]);
+  const waivers = (doc.toJS()?.confidentialityWaivers ?? []) as string[];
+  const commits = parseCommitBlocks(await readFile(values.input, 'utf8')).map(parseCommit);
+  const findings = checkConfidentiality(source, commits, waivers);
+
+  const relative = path.relative(process.cwd(), file);
+  for (const finding of findings) {
+    console.log(`${relative}:${finding.line}  ${finding.kind}  ${finding.message}`);
+  }
+
+  if (findings.length > 0) {
+    console.log(`\n${findings.length} finding${findings.length !== 1 ? 's' : ''}; the post stays a draft. ` +
+      'Remove them, or add the term to confidentialityWaivers if it is safe to publish.');
+    process.exitCode = 1;
+    return;
+  }
+
+  if (values.check) {
+    console.log(`${relative}: no confidentiality findings.`);
+    return;
+  }
+
+  if (doc.get('draft') !== true) {
+    console.log(`${relative} is not a draft.`);
+    return;
+  }
+
+  doc.delete('draft');
+  const frontmatter = doc.toString({ lineWidth: 0, flowCollectionPadding: false }).trimEnd();
+  await writeFile(file, source.replace(match[1], () => frontmatter));
+  console.log(`${relative}: no confidentiality findings, draft flag cleared.`);
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,44 @@
+/**
+ * Header carousel slide registry
+ * Project entries list slides by id; markup lives in one component per slide
+ */
+
+import SpatiumResonanceSlide from './SpatiumResonanceSlide.astro';
+import SpatiumUnitSlide from './SpatiumUnitSlide.astro';
+import SpatiumEmergenceSlide from './SpatiumEmergenceSlide.astro';
+import SpatiumResearchSlide from './SpatiumResearchSlide.astro';
+import BazaarOverviewSlide from './BazaarOverviewSlide.astro';
+import BazaarClustersSlide from './BazaarClustersSlide.astro';
+import BazaarFlowSlide from './BazaarFlowSlide.astro';
+import BazaarInfraSlide from './BazaarInfraSlide.astro';
+import XtranodlyOverviewSlide from './XtranodlyOverviewSlide.astro';
+import XtranodlyComponentsSlide from './XtranodlyComponentsSlide.astro';
+import XtranodlyExecutionSlide from './XtranodlyExecutionSlide.astro';
+import XtranodlyWhySlide from './XtranodlyWhySlide.astro';
+
+export const SLIDES = {
+  'spatium-resonance': SpatiumResonanceSlide,
+  'spatium-unit': SpatiumUnitSlide,
+  'spatium-emergence': SpatiumEmergenceSlide,
+  'spatium-research': SpatiumResearchSlide,
+  'bazaar-overview': BazaarOverviewSlide,
+  'bazaar-clusters': BazaarClustersSlide,
+  'bazaar-flow': BazaarFlowSlide,
+  'bazaar-infra': BazaarInfraSlide,
+  'xtranodly-overview': XtranodlyOverviewSlide,
+  'xtranodly-components': XtranodlyComponentsSlide,
+  'xtranodly-execution': XtranodlyExecutionSlide,
+  'xtranodly-why': XtranodlyWhySlide,
+};
+
+export type SlideId = keyof typeof SLIDES;
+
+/**
+ * Resolve a slide component, failing the build on ids with no component
+ */
+export function getSlide(id: string) {
+  if (!(id in SLIDES)) {
+    throw new Error(`Unknown carousel slide "${id}" (known: ${Object.keys(SLIDES).join(', ')})`);
+  }
+  return SLIDES[id as SlideId];
+}
@@ -1,5 +1,27 @@
-import { defineCollection, z } from 'astro:content';
+import { defineCollection, reference, z } from 'astro:content';
 import { glob } from 'astro/loaders';
+import { PALETTE_COLOR_KEYS } from './lib/theme';
+import { CHANGE_NATURES, SCOPE_IMPACTS } from './lib/changeTraits';
+import { LOCALE_CODES, DEFAULT_LOCALE } from './lib/i18n/locales';
+
+const projects = defineCollection({
+  loader: glob({ pattern: '**/*.yaml', base: './src/content/projects' }),
+  schema: z.object({
+    name: z.string(),
+    /** Position in nav and listings */
+    order: z.number().int(),
+    colorKey: z.enum(PALETTE_COLOR_KEYS),
+    icon: z.string(),
+    status: z.enum(['active', 'paused', 'archived']).default('active'),
+    shortDescription: z.string(),
+    description: z.string(),
+    /** Header carousel slides, ids resolved in components/slides */
+    slides: z.array(z.object({
+      id: z.string(),
+      title: z.string(),
+    })).default([]),
+  }),
+});
 
 const blog = defineCollection({
   loader: glob({ pattern: '**/*.md', base: './src/content/blog' }),
@@ -7,13 +29,28 @@ const blog = defineCollection({
     title: z.string(),
     date: z.coerce.date(),
     description: z.string().optional(),
-    project: z.enum(['xtranodly', 'bazaar', 'spatium']).optional(),
+    project: reference('projects').optional(),
     tags: z.array(z.string()).default([]),
     languages: z.array(z.string()).default([]),
     patterns: z.array(z.string()).default([]),
     architectures: z.array(z.string()).default([]),
+    /** Kinds of change the week covered (Change-Nature trailers) */
+    changeNature: z.array(z.enum(CHANGE_NATURES)).default([]),
+    /** Widest blast radius among the week's commits (Scope-Impact trailers) */
+    scopeImpact: z.enum(SCOPE_IMPACTS).optional(),
+    series: z.string().optional(),
+    seriesPart: z.number().int().positive().optional(),
     draft: z.boolean().default(false),
+    /** Hidden until this moment (checked at build time) */
+    publishAt: z.coerce.date().optional(),
+    lang: z.enum(LOCALE_CODES).default(DEFAULT_LOCALE),
+    /** Original post this entry translates (translations live in blog/<lang>/) */
+    translationOf: reference('blog').optional(),
+    /** Short hashes of the commits a generated post was drafted from (pnpm generate-post) */
+    sourceCommits: z.array(z.string()).default([]),
+    /** Terms the confidentiality guard may let through (pnpm publish-post) */
+    confidentialityWaivers: z.array(z.string()).default([]),
   }),
 });
 
-export const collections = { blog };
+export const collections = { projects, blog };
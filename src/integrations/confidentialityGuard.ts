@@ -0,0 +1,97 @@
+/**
+ * Confidentiality guard integration
+ * Runs checkConfidentiality at build start over the published (non-draft) posts
+ * generated from commits_output.txt, matched by their sourceCommits, and fails the
+ * build on any finding not listed in the post's confidentialityWaivers. Drafts are
+ * left to pnpm publish-post; hand-written posts have no source commits to check.
+ */
+
+import { readFile, readdir } from 'node:fs/promises';
+import path from 'node:path';
+import type { AstroIntegration } from 'astro';
+import { parse } from 'yaml';
+import { parseCommitBlocks } from '../lib/devlog/commits';
+import { parseCommit, type ParsedCommit } from '../lib/devlog/trailers';
+import { getShortHash } from '../lib/devlog/draftPost';
+import { checkConfidentiality, type ConfidentialityFinding } from '../lib/devlog/confidentiality';
+
+export interface ConfidentialityGuardOptions {
+  /** Commit blocks the posts were generated from (default: commits_output.txt) */
+  input?: string;
+}
+
+export interface PostConfidentialityReport {
+  file: string;
+  findings: ConfidentialityFinding[];
+}
+
+const BLOG_DIR = 'src/content/blog';
+const DEFAULT_INPUT = 'commits_output.txt';
+const FRONTMATTER = /^---\r?\n([\s\S]*?)\r?\n---/;
+
+interface GuardFrontmatter {
+  draft?: boolean;
+  sourceCommits?: string[];
+  confidentialityWaivers?: string[];
+}
+
+async function readSourceCommits(file: string): Promise<ParsedCommit[]> {
+  try {
+    return parseCommitBlocks(await readFile(file, 'utf8')).map(parseCommit);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+}
+
+/**
+ * Check the published posts drafted from `input` (paths relative to `root`)
+ */
+export async function checkPublishedPosts(root: string, input: string = DEFAULT_INPUT): Promise<PostConfidentialityReport[]> {
+  const dir = path.join(root, BLOG_DIR);
+  const commits = await readSourceCommits(path.resolve(root, input));
+  if (commits.length === 0) return [];
+  const hashes = new Set(commits.map(commit => getShortHash(commit.hash)));
+
+  const files = (await readdir(dir, { recursive: true }))
+    .filter(name => name.endsWith('.md') || name.endsWith('.mdx'))
+    .sort();
+
+  const reports = await Promise.all(files.map(async name => {
+    const source = await readFile(path.join(dir, name), 'utf8');
+    const match = source.match(FRONTMATTER);
+    const data = match ? parse(match[1]) as GuardFrontmatter | null : null;
+    const generated = data?.sourceCommits?.some(hash => hashes.has(hash)) ?? false;
+    return {
+      file: path.join(BLOG_DIR, name),
+      findings: generated && data?.draft !== true
+        ? checkConfidentiality(source, commits, data?.confidentialityWaivers)
+        : [],
+    };
+  }));
+
+  return reports.filter(report => report.findings.length > 0);
+}
+
+export function formatConfidentialityFinding(file: string, finding: ConfidentialityFinding): string {
+  return `${file}:${finding.line}  ${finding.kind}  ${finding.message}`;
+}
+
+export default function confidentialityGuard({ input }: ConfidentialityGuardOptions = {}): AstroIntegration {
+  return {
+    name: 'devlog-confidentiality-guard',
+    hooks: {
+      'astro:build:start': async ({ logger }) => {
+        const reports = await checkPublishedPosts(process.cwd(), input);
+        const lines = reports.flatMap(({ file, findings }) => findings.map(finding => formatConfidentialityFinding(file, finding)));
+        if (lines.length === 0) return;
+
+        lines.forEach(line => logger.error(line));
+        throw new Error(
+          `${lines.length} confidentiality finding${lines.length !== 1 ? 's' : ''} in ${reports.length} published post${reports.length !== 1 ? 's' : ''}. ` +
+          'Remove them, mark the post draft: true, or add the term to confidentialityWaivers if it is safe to publish.'
+        );
+      },
+    },
+  };
+}
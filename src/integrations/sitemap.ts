@@ -0,0 +1,95 @@
+/**
+ * Sitemap integration
+ * Writes sitemap.xml after the build from the HTML pages actually emitted, so
+ * every route is covered without a second list to keep in sync. Pages marked
+ * noindex (previews) are left out; hreflang links become xhtml:link alternates.
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+import path from 'node:path';
+import type { AstroIntegration } from 'astro';
+import { SITEMAP_FILE } from '../lib/constants';
+import { getCanonicalUrl } from '../lib/canonical';
+
+export interface SitemapEntry {
+  loc: string;
+  alternates: { hreflang: string; href: string }[];
+}
+
+const NOINDEX = /<meta\s+name="robots"\s+content="[^"]*noindex/i;
+const HREFLANG = /<link\s+rel="alternate"\s+hreflang="([^"]+)"\s+href="([^"]+)"/gi;
+// Status pages have no place in a sitemap
+const EXCLUDED = new Set(['404', '500']);
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Indexable pages among the built routes (pathnames as Astro reports them, e.g. "blog/foo/")
+ */
+export async function collectSitemapEntries(outDir: string, pathnames: string[], site: URL): Promise<SitemapEntry[]> {
+  const entries = await Promise.all(pathnames.map(async (pathname): Promise<SitemapEntry | null> => {
+    const trimmed = pathname.replace(/^\/|\/$/g, '');
+    if (EXCLUDED.has(trimmed)) return null;
+
+    const html = await readFile(path.join(outDir, trimmed, 'index.html'), 'utf8').catch(() => null);
+    if (html === null || NOINDEX.test(html)) return null;
+
+    return {
+      loc: getCanonicalUrl(`/${trimmed}`, site),
+      alternates: [...html.matchAll(HREFLANG)].map(([, hreflang, href]) => ({
+        hreflang,
+        href: getCanonicalUrl(href, site),
+      })),
+    };
+  }));
+
+  return entries
+    .filter((entry): entry is SitemapEntry => entry !== null)
+    .sort((a, b) => a.loc.localeCompare(b.loc));
+}
+
+export function renderSitemap(entries: SitemapEntry[]): string {
+  const urls = entries.map(({ loc, alternates }) => [
+    '  <url>',
+    `    <loc>${escapeXml(loc)}</loc>`,
+    ...alternates.map(({ hreflang, href }) =>
+      `    <xhtml:link rel="alternate" hreflang="${escapeXml(hreflang)}" href="${escapeXml(href)}"/>`
+    ),
+    '  </url>',
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:xhtml="http://www.w3.org/1999/xhtml">',
+    ...urls,
+    '</urlset>',
+    '',
+  ].join('\n');
+}
+
+export default function sitemap(): AstroIntegration {
+  let site: URL | undefined;
+
+  return {
+    name: 'devlog-sitemap',
+    hooks: {
+      'astro:config:done': ({ config }) => {
+        site = config.site ? new URL(config.site) : undefined;
+      },
+      'astro:build:done': async ({ dir, pages, logger }) => {
+        if (!site) {
+          logger.warn('No `site` configured; skipping sitemap.xml');
+          return;
+        }
+
+        const outDir = fileURLToPath(dir);
+        const entries = await collectSitemapEntries(outDir, pages.map(page => page.pathname), site);
+        await writeFile(path.join(outDir, SITEMAP_FILE), renderSitemap(entries));
+        logger.info(`${SITEMAP_FILE} with ${entries.length} URL${entries.length !== 1 ? 's' : ''}`);
+      },
+    },
+  };
+}
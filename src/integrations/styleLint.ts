@@ -0,0 +1,75 @@
+/**
+ * Style lint integration
+ * Runs lintPostStyle over weekly posts at build start. Findings are warnings by
+ * default; strict mode (or DEVLOG_STRICT_STYLE=true) fails the build instead.
+ */
+
+import { readFile, readdir } from 'node:fs/promises';
+import path from 'node:path';
+import type { AstroIntegration } from 'astro';
+import { parse } from 'yaml';
+import { lintPostStyle, type StyleIssue } from '../lib/styleLint';
+
+export interface StyleLintOptions {
+  strict?: boolean;
+}
+
+export interface PostStyleReport {
+  file: string;
+  issues: StyleIssue[];
+}
+
+const BLOG_DIR = 'src/content/blog';
+const FRONTMATTER = /^---\r?\n([\s\S]*?)\r?\n---/;
+const WEEKLY_TAG = 'weekly';
+
+function isWeeklyPost(source: string): boolean {
+  const match = source.match(FRONTMATTER);
+  const data = match ? parse(match[1]) as { tags?: string[] } | null : null;
+  return data?.tags?.includes(WEEKLY_TAG) ?? false;
+}
+
+/**
+ * Lint every weekly post under the blog collection (paths relative to `root`)
+ */
+export async function lintBlogPosts(root: string): Promise<PostStyleReport[]> {
+  const dir = path.join(root, BLOG_DIR);
+  const files = (await readdir(dir, { recursive: true }))
+    .filter(name => name.endsWith('.md') || name.endsWith('.mdx'))
+    .sort();
+
+  const reports = await Promise.all(files.map(async name => {
+    const source = await readFile(path.join(dir, name), 'utf8');
+    return {
+      file: path.join(BLOG_DIR, name),
+      issues: isWeeklyPost(source) ? lintPostStyle(source) : [],
+    };
+  }));
+
+  return reports.filter(report => report.issues.length > 0);
+}
+
+export function formatStyleIssue(file: string, issue: StyleIssue): string {
+  return `${file}:${issue.line}  ${issue.rule}  ${issue.message}`;
+}
+
+export default function styleLint({ strict = process.env.DEVLOG_STRICT_STYLE === 'true' }: StyleLintOptions = {}): AstroIntegration {
+  return {
+    name: 'devlog-style-lint',
+    hooks: {
+      'astro:build:start': async ({ logger }) => {
+        const reports = await lintBlogPosts(process.cwd());
+        const lines = reports.flatMap(({ file, issues }) => issues.map(issue => formatStyleIssue(file, issue)));
+        if (lines.length === 0) return;
+
+        const summary = `${lines.length} style issue${lines.length !== 1 ? 's' : ''} in ${reports.length} post${reports.length !== 1 ? 's' : ''}`;
+        if (strict) {
+          lines.forEach(line => logger.error(line));
+          throw new Error(`${summary} (strict style mode)`);
+        }
+        lines.forEach(line => logger.warn(line));
+        logger.warn(summary);
+      },
+    },
+  };
+}
@@ -0,0 +1,210 @@
+/**
+ * Archive grouping
+ * Posts by year → month → week, plus the week-by-week activity heatmap
+ */
+
+import type { BlogPost } from './getPosts';
+import { addDays, formatWeekRange, getCalendarWeekStart, getWeekKey, getWeekStart } from './weekGrouping';
+import { LOCALES, DEFAULT_LOCALE, type Locale } from './i18n/locales';
+
+export interface ArchiveWeek {
+  /** Anchor id, e.g. "week-2026-W02" */
+  id: string;
+  start: Date;
+  label: string;
+  posts: BlogPost[];
+  /** Ids of the projects that posted this week, in first-seen order */
+  projects: string[];
+}
+
+export interface ArchiveMonth {
+  key: string;
+  label: string;
+  weeks: ArchiveWeek[];
+  postCount: number;
+}
+
+export interface ArchiveYear {
+  year: number;
+  months: ArchiveMonth[];
+  postCount: number;
+}
+
+export type HeatmapCellState = 'active' | 'empty' | 'outside';
+
+export interface HeatmapCell {
+  week: ArchiveWeek;
+  state: HeatmapCellState;
+}
+
+export interface HeatmapYear {
+  year: number;
+  cells: HeatmapCell[];
+  /** Column index (0-based) where each month's first week starts */
+  months: { label: string; column: number }[];
+}
+
+export interface ArchiveStats {
+  /** Weeks from the first post through the current week */
+  totalWeeks: number;
+  activeWeeks: number;
+  longestStreak: number;
+  currentStreak: number;
+}
+
+export function getWeekId(start: Date): string {
+  return `week-${getWeekKey(start)}`;
+}
+
+function createWeek(start: Date, locale: Locale): ArchiveWeek {
+  return { id: getWeekId(start), start, label: formatWeekRange(start, { weekNumber: true, locale }), posts: [], projects: [] };
+}
+
+// Week starts are calendar days at UTC midnight (see weekGrouping)
+function formatMonth(day: Date, month: 'long' | 'short', locale: Locale): string {
+  return day.toLocaleDateString(LOCALES[locale].dateLocale, { month, timeZone: 'UTC' });
+}
+
+/**
+ * Bucket posts into their weeks, keyed by week id
+ */
+export function groupPostsByWeek(posts: BlogPost[], locale: Locale = DEFAULT_LOCALE): Map<string, ArchiveWeek> {
+  const weeks = new Map<string, ArchiveWeek>();
+
+  for (const post of posts) {
+    const start = getWeekStart(post.data.date);
+    const id = getWeekId(start);
+    let week = weeks.get(id);
+    if (!week) {
+      week = createWeek(start, locale);
+      weeks.set(id, week);
+    }
+    week.posts.push(post);
+
+    const project = post.data.project?.id;
+    if (project && !week.projects.includes(project)) {
+      week.projects.push(project);
+    }
+  }
+
+  return weeks;
+}
+
+/**
+ * Year → month → week tree, newest first. Weeks are filed under the month they start in.
+ */
+export function buildArchive(posts: BlogPost[], locale: Locale = DEFAULT_LOCALE): ArchiveYear[] {
+  const weeks = [...groupPostsByWeek(posts, locale).values()].sort((a, b) => b.start.valueOf() - a.start.valueOf());
+  const years: ArchiveYear[] = [];
+
+  for (const week of weeks) {
+    const year = week.start.getUTCFullYear();
+    const monthKey = `${year}-${String(week.start.getUTCMonth() + 1).padStart(2, '0')}`;
+
+    let archiveYear = years[years.length - 1];
+    if (archiveYear?.year !== year) {
+      archiveYear = { year, months: [], postCount: 0 };
+      years.push(archiveYear);
+    }
+
+    let month = archiveYear.months[archiveYear.months.length - 1];
+    if (month?.key !== monthKey) {
+      month = {
+        key: monthKey,
+        label: formatMonth(week.start, 'long', locale),
+        weeks: [],
+        postCount: 0,
+      };
+      archiveYear.months.push(month);
+    }
+
+    month.weeks.push(week);
+    month.postCount += week.posts.length;
+    archiveYear.postCount += week.posts.length;
+  }
+
+  return years;
+}
+
+/**
+ * One row of week cells per year, from the year of the first post through `now`.
+ * Weeks before the first post or after `now` are 'outside'; the rest are either
+ * 'active' or an explicit 'empty' gap.
+ */
+export function buildHeatmap(
+  posts: BlogPost[],
+  now: Date = new Date(),
+  locale: Locale = DEFAULT_LOCALE
+): HeatmapYear[] {
+  if (posts.length === 0) return [];
+
+  const weeks = groupPostsByWeek(posts, locale);
+  const firstWeek = getWeekStart(new Date(Math.min(...posts.map(post => post.data.date.valueOf()))));
+  const currentWeek = getWeekStart(now);
+  const rows: HeatmapYear[] = [];
+
+  for (let year = firstWeek.getUTCFullYear(); year <= currentWeek.getUTCFullYear(); year++) {
+    const row: HeatmapYear = { year, cells: [], months: [] };
+    let start = getCalendarWeekStart(new Date(Date.UTC(year, 0, 1)));
+    // Weeks belong to the year they start in
+    if (start.getUTCFullYear() < year) start = addDays(start, 7);
+
+    for (; start.getUTCFullYear() === year; start = addDays(start, 7)) {
+      const week = weeks.get(getWeekId(start)) ?? createWeek(start, locale);
+      const state: HeatmapCellState = start < firstWeek || start > currentWeek
+        ? 'outside'
+        : week.posts.length > 0 ? 'active' : 'empty';
+
+      const lastMonth = row.months[row.months.length - 1];
+      const monthLabel = formatMonth(start, 'short', locale);
+      if (lastMonth?.label !== monthLabel) {
+        row.months.push({ label: monthLabel, column: row.cells.length });
+      }
+
+      row.cells.push({ week, state });
+    }
+
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+export function getArchiveStats(heatmap: HeatmapYear[]): ArchiveStats {
+  const cells = heatmap.flatMap(row => row.cells).filter(cell => cell.state !== 'outside');
+  let longestStreak = 0;
+  let streak = 0;
+
+  for (const cell of cells) {
+    streak = cell.state === 'active' ? streak + 1 : 0;
+    longestStreak = Math.max(longestStreak, streak);
+  }
+
+  // The current week still counts as "in progress" while it has no post yet
+  const pending = cells.length > 0 && cells[cells.length - 1].state === 'empty' ? 1 : 0;
+  let currentStreak = 0;
+  for (let i = cells.length - 1 - pending; i >= 0 && cells[i].state === 'active'; i--) {
+    currentStreak++;
+  }
+
+  return {
+    totalWeeks: cells.length,
+    activeWeeks: cells.filter(cell => cell.state === 'active').length,
+    longestStreak,
+    currentStreak,
+  };
+}
+
+/**
+ * Cell fill: a project's color, or equal stripes when several projects posted
+ */
+export function getCellBackground(colorKeys: string[]): string | undefined {
+  if (colorKeys.length === 0) return undefined;
+  if (colorKeys.length === 1) return `var(--color-${colorKeys[0]})`;
+
+  const step = 100 / colorKeys.length;
+  const stops = colorKeys.map((key, i) =>
+    `var(--color-${key}) ${(i * step).toFixed(2)}% ${((i + 1) * step).toFixed(2)}%`
+  );
+  return `linear-gradient(135deg, ${stops.join(', ')})`;
+}
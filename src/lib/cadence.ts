@@ -0,0 +1,86 @@
+/**
+ * Posting cadence
+ * Build-time weekly accountability per project: streaks, missed weeks and the
+ * average gap between posts, on the same week grid as the archive heatmap
+ */
+
+import type { BlogPost } from './getPosts';
+import { buildHeatmap, getArchiveStats, type ArchiveStats, type ArchiveWeek } from './archive';
+import { addDays, formatDayRange, getWeekKey } from './weekGrouping';
+import { DEFAULT_LOCALE, type Locale } from './i18n/locales';
+
+export interface CadenceWeek {
+  week: ArchiveWeek;
+  /** The current week, which has no post yet but isn't over either */
+  pending: boolean;
+}
+
+/** Consecutive missed weeks, reported as one range */
+export interface MissedRun {
+  start: Date;
+  weeks: number;
+  /** ISO keys of every week in the run */
+  weekKeys: string[];
+  label: string;
+}
+
+export interface Cadence extends ArchiveStats {
+  /** Every week from the first post through the current one, oldest first */
+  weeks: CadenceWeek[];
+  /** Past weeks without a post */
+  missedWeeks: ArchiveWeek[];
+  missedRuns: MissedRun[];
+  /** Mean days between consecutive posts, null with fewer than two posts */
+  averageGapDays: number | null;
+}
+
+const DAY_MS = 86_400_000;
+
+/**
+ * Group missed weeks into runs of consecutive weeks
+ */
+export function groupMissedWeeks(missed: ArchiveWeek[], locale: Locale = DEFAULT_LOCALE): MissedRun[] {
+  const runs: Omit<MissedRun, 'label'>[] = [];
+  for (const week of missed) {
+    const last = runs[runs.length - 1];
+    if (last && addDays(last.start, last.weeks * 7).valueOf() === week.start.valueOf()) {
+      last.weeks++;
+      last.weekKeys.push(getWeekKey(week.start));
+    } else {
+      runs.push({ start: week.start, weeks: 1, weekKeys: [getWeekKey(week.start)] });
+    }
+  }
+  return runs.map(run => ({
+    ...run,
+    label: formatDayRange(run.start, addDays(run.start, run.weeks * 7 - 1), locale),
+  }));
+}
+
+export function getAverageGapDays(posts: BlogPost[]): number | null {
+  if (posts.length < 2) return null;
+  const times = posts.map(post => post.data.date.valueOf()).sort((a, b) => a - b);
+  return (times[times.length - 1] - times[0]) / (times.length - 1) / DAY_MS;
+}
+
+/**
+ * Cadence of a set of posts (usually one project's) up to `now`
+ */
+export function computeCadence(posts: BlogPost[], now: Date = new Date(), locale: Locale = DEFAULT_LOCALE): Cadence {
+  const heatmap = buildHeatmap(posts, now, locale);
+  const cells = heatmap.flatMap(row => row.cells).filter(cell => cell.state !== 'outside');
+  const weeks = cells.map(({ week, state }, i) => ({
+    week,
+    pending: i === cells.length - 1 && state === 'empty',
+  }));
+  const missedWeeks = weeks
+    .filter(({ week, pending }) => !pending && week.posts.length === 0)
+    .map(({ week }) => week);
+
+  return {
+    ...getArchiveStats(heatmap),
+    weeks,
+    missedWeeks,
+    missedRuns: groupMissedWeeks(missedWeeks, locale),
+    averageGapDays: getAverageGapDays(posts),
+  };
+}
@@ -0,0 +1,18 @@
+/**
+ * Canonical URLs
+ * Pages build to directories (blog/foo/index.html), so their canonical form ends in a slash.
+ * Free of content imports, so build integrations can share it with the layouts.
+ */
+
+const FILE_PATH = /\.[a-z0-9]+$/i;
+
+/**
+ * Absolute canonical URL of a site path: page paths get a trailing slash, file paths don't
+ */
+export function getCanonicalUrl(path: string, site?: URL | string): string {
+  const url = new URL(path, site);
+  if (!url.pathname.endsWith('/') && !FILE_PATH.test(url.pathname)) {
+    url.pathname += '/';
+  }
+  return url.href;
+}
@@ -0,0 +1,53 @@
+/**
+ * Change traits
+ * What kind of work a post covers (Change-Nature) and how far it reaches (Scope-Impact),
+ * as classified by commit trailers and carried into post frontmatter
+ */
+
+export const CHANGE_NATURES = [
+  'architecture',
+  'new-component',
+  'component-modify',
+  'component-remove',
+  'pattern-adoption',
+  'critical-fix',
+  'performance',
+  'breaking-change',
+  'security',
+  'cleanup',
+  'dx',
+  'migration',
+] as const;
+
+/** Narrowest to widest */
+export const SCOPE_IMPACTS = ['local', 'module', 'cross-cutting', 'foundational'] as const;
+
+export type ChangeNature = typeof CHANGE_NATURES[number];
+export type ScopeImpact = typeof SCOPE_IMPACTS[number];
+
+/** Natures that deserve a reader's attention before anything else */
+export const NOTABLE_CHANGE_NATURES: readonly ChangeNature[] = ['critical-fix', 'breaking-change', 'security'];
+
+/**
+ * Widest scope among the given ones
+ */
+export function getWidestScope(scopes: (ScopeImpact | undefined)[]): ScopeImpact | undefined {
+  return scopes.reduce<ScopeImpact | undefined>((widest, scope) => {
+    if (!scope) return widest;
+    return !widest || SCOPE_IMPACTS.indexOf(scope) > SCOPE_IMPACTS.indexOf(widest) ? scope : widest;
+  }, undefined);
+}
+
+/**
+ * Natures in their canonical order, without duplicates
+ */
+export function sortChangeNatures(natures: Iterable<ChangeNature>): ChangeNature[] {
+  const present = new Set(natures);
+  return CHANGE_NATURES.filter(nature => present.has(nature));
+}
+
+/** Filter groups on /blog (see postFilters): data attributes on cards and query-string keys */
+export const CHANGE_FILTER_GROUPS = {
+  changeNature: 'change-nature',
+  scopeImpact: 'scope-impact',
+} as const;
@@ -22,11 +22,41 @@ export {
 
 export const POSTS_PER_PAGE = 6;
 
+export const FEED_FILES = {
+  rss: 'rss.xml',
+  atom: 'atom.xml',
+  json: 'feed.json',
+} as const;
+
 export const CONTAINER_IDS = {
   posts: 'posts-container',
   chat: 'chat-panel',
 } as const;
 
+/** Social card size (Open Graph / Twitter large image) */
+export const OG_IMAGE_SIZE = { width: 1200, height: 630 } as const;
+
+/** Written at the site root by the sitemap integration */
+export const SITEMAP_FILE = 'sitemap.xml';
+
+// =============================================================================
+// WEEK GROUPING
+// =============================================================================
+
+export const WEEKS: {
+  /** IANA zone week boundaries are computed in, independent of the build machine */
+  timeZone: string;
+  /** First day of the week: 1 = Monday (ISO 8601), 0 = Sunday */
+  startsOn: 0 | 1;
+  /** Prefix week labels with the ISO week number ("W19 · May 4 — May 10, 2026") */
+  showWeekNumber: boolean;
+} = {
+  // Date-only frontmatter parses as UTC midnight; zones west of UTC would pull those posts back a day
+  timeZone: 'UTC',
+  startsOn: 1,
+  showWeekNumber: false,
+};
+
 // =============================================================================
 // BREAKPOINTS (in pixels)
 // =============================================================================
@@ -62,6 +92,7 @@ export const SITE = {
   title: 'sinkyl Devlog',
   titleSuffix: ' — sinkyl Devlog',
   author: 'Sinan',
+  description: 'A weekly engineering devlog tracking three projects built in parallel.',
 } as const;
 
 // =============================================================================
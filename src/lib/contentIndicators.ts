@@ -1,22 +1,133 @@
-export interface ContentIndicators {
-  hasImages: boolean;
-  hasDiagrams: boolean;
-  hasCode: boolean;
+/**
+ * Content indicators
+ * What a post contains besides prose: images, diagrams, code, tables, math,
+ * callouts, links and MDX components, with counts and the code languages used
+ */
+
+export const INDICATOR_KINDS = [
+  'images',
+  'diagrams',
+  'code',
+  'tables',
+  'math',
+  'callouts',
+  'links',
+  'components',
+] as const;
+
+export type IndicatorKind = typeof INDICATOR_KINDS[number];
+export type IndicatorFlag = `has${Capitalize<IndicatorKind>}`;
+
+export interface ContentIndicators extends Record<IndicatorFlag, boolean> {
+  counts: Record<IndicatorKind, number>;
+  /** Distinct fence languages in order of first use (mermaid and plain text excluded) */
+  codeLanguages: string[];
 }
 
-export function detectContentIndicators(rawContent: string): ContentIndicators {
-  // Detect images: ![alt](url) or <img tags
-  const hasImages = /!\[.*?\]\(.*?\)|<img\s/i.test(rawContent);
+/** Query-string groups of the /blog content filters (see postFilters) */
+export const INDICATOR_FILTER_GROUPS = {
+  contains: 'contains',
+  codeLanguage: 'code-lang',
+} as const;
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+  rs: 'rust',
+  cs: 'csharp',
+  'c#': 'csharp',
+  ts: 'typescript',
+  js: 'javascript',
+  py: 'python',
+  sh: 'bash',
+  shell: 'bash',
+  zsh: 'bash',
+  yml: 'yaml',
+  'c++': 'cpp',
+};
+
+const LANGUAGE_LABELS: Record<string, string> = {
+  rust: 'Rust',
+  csharp: 'C#',
+  typescript: 'TypeScript',
+  javascript: 'JavaScript',
+  python: 'Python',
+  bash: 'Bash',
+  yaml: 'YAML',
+  toml: 'TOML',
+  json: 'JSON',
+  cpp: 'C++',
+  sql: 'SQL',
+  wgsl: 'WGSL',
+  glsl: 'GLSL',
+  hlsl: 'HLSL',
+};
+
+const PLAIN_TEXT = new Set(['text', 'txt', 'plaintext', 'plain']);
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})[ \t]*([\w+#-]*)[^\n]*\n[\s\S]*?^ {0,3}\1[ \t]*$/gm;
+const CODE_SPAN = /`[^`\n]+`/g;
+const IMAGE = /!\[[^\]]*\]\([^)]*\)|<img\s/gi;
+const LINK = /(?<!!)\[[^\]]+\]\([^)\s]+[^)]*\)|<https?:\/\/[^>\s]+>/g;
+const TABLE_DELIMITER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)+\|?\s*$|^\s*\|\s*:?-+:?\s*\|\s*$/gm;
+const DISPLAY_MATH = /\$\$[\s\S]+?\$\$/g;
+const INLINE_MATH = /(?<![\\$\w])\$(?=\S)[^$\n]+?(?<=\S)\$(?![\w$])/g;
+const BLOCKQUOTE = /^ {0,3}>.*(?:\n {0,3}>.*)*/gm;
+// GitHub alerts (> [!NOTE]) and bold-labelled quotes (> **Decision:** ...)
+const CALLOUT_MARKER = /^ {0,3}>[ \t]*(\[![a-z]+\]|\*\*[^*\n]+:\*\*)/i;
+const COMPONENT = /<([A-Z][\w.]*)[\s/>]/g;
+
+export function normalizeCodeLanguage(lang: string): string {
+  const normalized = lang.toLowerCase();
+  return LANGUAGE_ALIASES[normalized] ?? normalized;
+}
+
+export function getCodeLanguageLabel(lang: string): string {
+  return LANGUAGE_LABELS[lang] ?? lang;
+}
+
+export function getIndicatorFlag(kind: IndicatorKind): IndicatorFlag {
+  return `has${kind[0].toUpperCase()}${kind.slice(1)}` as IndicatorFlag;
+}
+
+/**
+ * Kinds a post actually contains, in INDICATOR_KINDS order
+ */
+export function getPresentIndicators(indicators: ContentIndicators): IndicatorKind[] {
+  return INDICATOR_KINDS.filter(kind => indicators.counts[kind] > 0);
+}
+
+function count(text: string, pattern: RegExp): number {
+  return text.match(pattern)?.length ?? 0;
+}
+
+/**
+ * Markdown with its fenced blocks (code and diagrams) blanked out, keeping line numbers
+ */
+export function stripCodeFences(markdown: string): string {
+  return markdown.replace(FENCE, block => block.replace(/[^\n]+/g, ''));
+}
+
+export function detectContentIndicators(rawContent: string = ''): ContentIndicators {
+  const fences = [...rawContent.matchAll(FENCE)].map(match => normalizeCodeLanguage(match[2]));
+  const diagrams = fences.filter(lang => lang === 'mermaid').length;
+  const codeLanguages = [...new Set(fences.filter(lang => lang && lang !== 'mermaid' && !PLAIN_TEXT.has(lang)))];
+
+  // Everything else only counts in prose, not inside code
+  const prose = stripCodeFences(rawContent).replace(CODE_SPAN, ' ');
 
-  // Detect mermaid diagrams
-  const hasDiagrams = /```mermaid/i.test(rawContent);
+  const counts: Record<IndicatorKind, number> = {
+    images: count(prose, IMAGE),
+    diagrams,
+    code: fences.length - diagrams,
+    tables: count(prose, TABLE_DELIMITER),
+    math: count(prose, DISPLAY_MATH) + count(prose.replace(DISPLAY_MATH, ' '), INLINE_MATH),
+    callouts: (prose.match(BLOCKQUOTE) ?? []).filter(quote => CALLOUT_MARKER.test(quote)).length,
+    links: count(prose, LINK),
+    components: count(prose, COMPONENT),
+  };
 
-  // Detect code blocks (excluding mermaid)
-  const codeBlockMatches = rawContent.match(/```(\w*)/g) || [];
-  const hasCode = codeBlockMatches.some(match => {
-    const lang = match.replace('```', '').toLowerCase();
-    return lang && lang !== 'mermaid';
-  });
+  const flags = Object.fromEntries(
+    INDICATOR_KINDS.map(kind => [getIndicatorFlag(kind), counts[kind] > 0])
+  ) as Record<IndicatorFlag, boolean>;
 
-  return { hasImages, hasDiagrams, hasCode };
+  return { ...flags, counts, codeLanguages };
 }
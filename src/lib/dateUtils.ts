@@ -3,14 +3,14 @@
  * Centralized date formatting to avoid duplication across components
  */
 
-const locale = 'en-US';
+import { LOCALES, DEFAULT_LOCALE, type Locale } from './i18n/locales';
 
 /**
  * Long format: "January 15, 2026"
  * Used in: BlogPost header
  */
-export function formatDateLong(date: Date): string {
-  return date.toLocaleDateString(locale, {
+export function formatDateLong(date: Date, locale: Locale = DEFAULT_LOCALE): string {
+  return date.toLocaleDateString(LOCALES[locale].dateLocale, {
     year: 'numeric',
     month: 'long',
     day: 'numeric',
@@ -21,8 +21,8 @@ export function formatDateLong(date: Date): string {
  * Short format: "Jan 15, 2026"
  * Used in: PostCard, navigation
  */
-export function formatDateShort(date: Date): string {
-  return date.toLocaleDateString(locale, {
+export function formatDateShort(date: Date, locale: Locale = DEFAULT_LOCALE): string {
+  return date.toLocaleDateString(LOCALES[locale].dateLocale, {
     month: 'short',
     day: 'numeric',
     year: 'numeric',
@@ -33,8 +33,8 @@ export function formatDateShort(date: Date): string {
  * Compact format: "Jan 15"
  * Used in: Latest post widget, tight spaces
  */
-export function formatDateCompact(date: Date): string {
-  return date.toLocaleDateString(locale, {
+export function formatDateCompact(date: Date, locale: Locale = DEFAULT_LOCALE): string {
+  return date.toLocaleDateString(LOCALES[locale].dateLocale, {
     month: 'short',
     day: 'numeric',
   });
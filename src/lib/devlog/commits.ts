@@ -0,0 +1,148 @@
+/**
+ * Devlog commit collection
+ * Reads commits from a local git repo for a calendar date range and round-trips
+ * them through the `=== COMMIT ===` block format used by commits_output.txt
+ */
+
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import { addDays, getCalendarDay } from '../weekGrouping';
+import { WEEKS } from '../constants';
+
+const execFileAsync = promisify(execFile);
+
+export interface DevlogCommit {
+  hash: string;
+  subject: string;
+  /** Everything after the subject line, trailers included */
+  body: string;
+  /** 1-based line where the body starts in the file the commit was parsed from */
+  bodyLine?: number;
+}
+
+/** Inclusive calendar days, as YYYY-MM-DD in WEEKS.timeZone */
+export interface DateRange {
+  since: string;
+  until: string;
+}
+
+export const COMMIT_START = '=== COMMIT ===';
+export const COMMIT_END = '=== END ===';
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const FIELD_SEPARATOR = '\x1f';
+const RECORD_SEPARATOR = '\x1e';
+
+export function formatDay(day: Date): string {
+  return day.toISOString().slice(0, 10);
+}
+
+/**
+ * Parse a YYYY-MM-DD day into a UTC-midnight Date (the weekGrouping calendar-day convention)
+ */
+export function parseDay(value: string): Date {
+  const day = new Date(`${value}T00:00:00Z`);
+  if (!DAY_PATTERN.test(value) || Number.isNaN(day.valueOf()) || formatDay(day) !== value) {
+    throw new Error(`Invalid date "${value}" (expected YYYY-MM-DD)`);
+  }
+  return day;
+}
+
+/**
+ * Fill in a missing end (today) or start (six days before the end), then validate the range
+ */
+export function resolveDateRange({ since, until }: Partial<DateRange>, now: Date = new Date()): DateRange {
+  const end = until ? parseDay(until) : getCalendarDay(now, WEEKS.timeZone);
+  const start = since ? parseDay(since) : addDays(end, -6);
+  if (start > end) {
+    throw new Error(`Date range starts after it ends (${formatDay(start)} > ${formatDay(end)})`);
+  }
+  return { since: formatDay(start), until: formatDay(end) };
+}
+
+/**
+ * Run git in a repo and return stdout
+ */
+export async function runGit(repoDir: string, args: string[], env: NodeJS.ProcessEnv = {}): Promise<string> {
+  const { stdout } = await execFileAsync('git', args, {
+    cwd: repoDir,
+    env: { ...process.env, ...env },
+    maxBuffer: 64 * 1024 * 1024,
+  });
+  return stdout;
+}
+
+/**
+ * Non-merge commits whose committer date falls inside the range, newest first
+ */
+export async function readCommits(repoDir: string, range: DateRange): Promise<DevlogCommit[]> {
+  const start = parseDay(range.since);
+  const end = parseDay(range.until);
+
+  // git's own date filter runs in the machine's zone, so widen it by a day
+  // on each side and apply the exact calendar-day check below
+  const output = await runGit(repoDir, [
+    'log',
+    '--no-merges',
+    `--since=${formatDay(addDays(start, -1))}T00:00:00Z`,
+    `--until=${formatDay(addDays(end, 2))}T00:00:00Z`,
+    `--format=%H${FIELD_SEPARATOR}%cI${FIELD_SEPARATOR}%s${FIELD_SEPARATOR}%b${RECORD_SEPARATOR}`,
+  ]);
+
+  return output
+    .split(RECORD_SEPARATOR)
+    .map(record => record.replace(/^\n/, ''))
+    .filter(record => record.trim() !== '')
+    .flatMap(record => {
+      const [hash, committedAt, subject, body = ''] = record.split(FIELD_SEPARATOR);
+      const day = getCalendarDay(new Date(committedAt), WEEKS.timeZone);
+      if (day < start || day > end) return [];
+      return [{ hash, subject, body: body.trim() }];
+    });
+}
+
+export function formatCommitBlocks(commits: DevlogCommit[]): string {
+  return commits
+    .map(({ hash, subject, body }) => [
+      COMMIT_START,
+      hash,
+      subject,
+      ...(body ? [body, ''] : []),
+      COMMIT_END,
+    ].join('\n'))
+    .join('\n') + (commits.length > 0 ? '\n' : '');
+}
+
+/**
+ * Read commits back out of `=== COMMIT ===` blocks (text outside blocks is ignored)
+ */
+export function parseCommitBlocks(text: string): DevlogCommit[] {
+  const commits: DevlogCommit[] = [];
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+
+  let block: string[] | null = null;
+  let blockLine = 0;
+  lines.forEach((line, i) => {
+    if (line === COMMIT_START) {
+      block = [];
+      blockLine = i + 1;
+    } else if (line === COMMIT_END && block) {
+      const [hash = '', subject = '', ...body] = block;
+      // Leading blank lines are trimmed from the body, so skip them when numbering
+      const leading = body.findIndex(bodyLine => bodyLine.trim() !== '');
+      if (hash.trim()) {
+        commits.push({
+          hash: hash.trim(),
+          subject: subject.trim(),
+          body: body.join('\n').trim(),
+          bodyLine: blockLine + 3 + Math.max(leading, 0),
+        });
+      }
+      block = null;
+    } else if (block) {
+      block.push(line);
+    }
+  });
+
+  return commits;
+}
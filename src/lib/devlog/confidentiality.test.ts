@@ -0,0 +1,115 @@
+/**
+ * Confidentiality guard tests
+ */
+
+import assert from 'node:assert/strict';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { describe, it } from 'node:test';
+import { checkPublishedPosts } from '../../integrations/confidentialityGuard';
+import { formatCommitBlocks, type DevlogCommit } from './commits';
+import { checkConfidentiality } from './confidentiality';
+import { parseCommit } from './trailers';
+
+const PUBLIC: DevlogCommit = {
+  hash: 'a1b2c3d4e5f60718293a4b5c6d7e8f9012345678',
+  subject: 'feat(graph-api): per-context SignalMap',
+  body: 'Scopes SignalMap per context.\n\nTech-Lang: Rust',
+};
+
+const REDACTED: DevlogCommit = {
+  hash: 'b2c3d4e5f60718293a4b5c6d7e8f901234567890',
+  subject: 'feat(billing): usage export',
+  body: 'Exports usage for the partner.\n\nConfidentiality: redact\nRedact-Notes: do not name "Acme Corp" or UsageBridge',
+};
+
+const SKIPPED: DevlogCommit = {
+  hash: 'c3d4e5f60718293a4b5c6d7e8f90123456789012',
+  subject: 'fix(auth-bridge): rotate TokenVault keys',
+  body: 'Confidentiality: skip',
+};
+
+const COMMITS = [PUBLIC, REDACTED, SKIPPED].map(parseCommit);
+
+function post(body: string, frontmatter: string = 'title: Week'): string {
+  return `---\n${frontmatter}\n---\n\n${body}\n`;
+}
+
+describe('checkConfidentiality', () => {
+  it('flags Redact-Notes terms with their line', () => {
+    const findings = checkConfidentiality(post('Shipped the export.\nBuilt for Acme Corp via UsageBridge.'), COMMITS);
+    assert.deepEqual(findings.map(({ kind, term, line }) => ({ kind, term, line })), [
+      { kind: 'redact-note', term: 'Acme Corp', line: 6 },
+      { kind: 'redact-note', term: 'UsageBridge', line: 6 },
+    ]);
+  });
+
+  it('flags terms from skipped commits unless a public commit uses them too', () => {
+    const findings = checkConfidentiality(post('The auth-bridge now rotates TokenVault keys.\nSignalMap is per context.'), COMMITS);
+    assert.deepEqual(findings.map(({ kind, term }) => [kind, term]), [
+      ['skipped-commit', 'auth-bridge'],
+      ['skipped-commit', 'TokenVault'],
+    ]);
+    assert.equal(findings[0].commit, SKIPPED.hash.slice(0, 8));
+  });
+
+  it('flags file paths and file names in prose', () => {
+    const findings = checkConfidentiality(post('Moved it to src/graph/signal_map.rs, next to src/lib/devlog and Program.cs.'), []);
+    assert.deepEqual(findings.map(finding => finding.term), ['src/graph/signal_map.rs', 'src/lib/devlog', 'Program.cs']);
+  });
+
+  it('leaves numbers, slash-separated words, URLs, images and fenced code alone', () => {
+    const body = [
+      'Chunks are 16/64/16 bytes; oscillators cover saw/sine/square/tri and D/enable/reset.',
+      'The signal_table/reset/1K bench and tick/counters/100 both improved.',
+      'Benchmarks use Criterion.rs and Three.js; see https://example.com/src/lib/main.rs.',
+      '![Graph](/blog/images/graph.png)',
+      '```rust',
+      '// src/graph/signal_map.rs',
+      '```',
+    ].join('\n');
+    assert.deepEqual(checkConfidentiality(post(body), []), []);
+  });
+
+  it('drops waived terms, case-insensitively', () => {
+    const findings = checkConfidentiality(post('Built for Acme Corp in Program.cs.'), COMMITS, ['acme corp', 'program.cs']);
+    assert.deepEqual(findings, []);
+  });
+});
+
+describe('build-time guard', () => {
+  it('checks only published posts drafted from the commit input', async () => {
+    const root = await mkdtemp(path.join(tmpdir(), 'devlog-guard-'));
+    try {
+      const blog = path.join(root, 'src/content/blog');
+      await mkdir(blog, { recursive: true });
+      await writeFile(path.join(root, 'commits_output.txt'), formatCommitBlocks([PUBLIC, REDACTED, SKIPPED]));
+
+      const leak = 'Built for Acme Corp.';
+      const generated = `sourceCommits: [${PUBLIC.hash.slice(0, 8)}]`;
+      await writeFile(path.join(blog, 'generated.md'), post(leak, generated));
+      await writeFile(path.join(blog, 'draft.md'), post(leak, `${generated}\ndraft: true`));
+      await writeFile(path.join(blog, 'waived.md'), post(leak, `${generated}\nconfidentialityWaivers: [Acme Corp]`));
+      await writeFile(path.join(blog, 'other-week.md'), post(leak, 'sourceCommits: [0badc0de]'));
+      await writeFile(path.join(blog, 'hand-written.md'), post('Edited src/lib/main.rs.'));
+
+      const reports = await checkPublishedPosts(root);
+      assert.deepEqual(reports.map(({ file, findings }) => [file, findings.map(finding => finding.term)]), [
+        [path.join('src/content/blog', 'generated.md'), ['Acme Corp']],
+      ]);
+    } finally {
+      await rm(root, { recursive: true, force: true });
+    }
+  });
+
+  it('passes when there is no commit input', async () => {
+    const root = await mkdtemp(path.join(tmpdir(), 'devlog-guard-'));
+    try {
+      await mkdir(path.join(root, 'src/content/blog'), { recursive: true });
+      assert.deepEqual(await checkPublishedPosts(root), []);
+    } finally {
+      await rm(root, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Confidentiality guard
+ * Cross-references a generated post with its source commits and flags what the
+ * prompt's hard rules forbid: Redact-Notes terms, anything from skip commits,
+ * and file-path-shaped strings
+ */
+
+import { stripCodeFences } from '../contentIndicators';
+import { getShortHash } from './draftPost';
+import type { ParsedCommit } from './trailers';
+
+export type ConfidentialityFindingKind = 'redact-note' | 'skipped-commit' | 'file-path';
+
+export interface ConfidentialityFinding {
+  kind: ConfidentialityFindingKind;
+  term: string;
+  /** 1-based line in the post */
+  line: number;
+  /** Short hash of the commit the term came from */
+  commit?: string;
+  message: string;
+}
+
+const MIN_TERM_LENGTH = 4;
+
+const CODE_EXTENSIONS = 'rs|ts|tsx|js|jsx|mjs|cjs|py|cs|go|java|kt|swift|c|h|cc|cpp|hpp|toml|ya?ml|json|csproj|sln|sh|sql|proto|wgsl|glsl|hlsl';
+
+const IDENTIFIER_PATTERNS = [
+  // `code spans`
+  /`([^`\n]+)`/g,
+  // PascalCase with at least two humps, camelCase
+  /\b([A-Z][a-z0-9]+(?:[A-Z][a-z0-9]*)+|[a-z][a-z0-9]*[A-Z]\w*)\b/g,
+  // snake_case
+  /\b([a-z0-9]+(?:_[a-z0-9]+)+)\b/g,
+  // Rust / C++ paths
+  /\b(\w+(?:::\w+)+)/g,
+];
+
+const QUOTED = /"([^"\n]+)"|'([^'\n]+)'/g;
+
+/** Leading segments that make an extensionless a/b/c a path rather than prose (saw/sine/square) */
+const SOURCE_ROOTS = String.raw`(?:\.{1,2}|~|src|lib|crates|packages|apps|tests?|benches|examples|scripts|docs|bin|cmd|internal|pkg|include|\.github)`;
+// Numbers are never directories: 16/64/16, tick/counters/100
+const SEGMENT = String.raw`(?!\d+\b)[\w-][\w.-]*`;
+
+const PATH_PATTERNS = [
+  // dir/file.ext, ./dir/file.ext, ../file.ext
+  new RegExp(String.raw`(?:\.{1,2}\/)?(?:${SEGMENT}\/)+[\w-]+\.(?:${CODE_EXTENSIONS}|md|txt)\b`, 'g'),
+  // extensionless paths under a source root (src/lib/devlog, ./scripts/release)
+  new RegExp(String.raw`(?<![\w/:.])${SOURCE_ROOTS}\/(?:${SEGMENT}\/)*(?!\d+\b)[\w-]+\b`, 'g'),
+  // bare file names with a code extension
+  new RegExp(String.raw`\b[\w-]+\.(?:${CODE_EXTENSIONS})\b`, 'g'),
+];
+
+/** Paths the prompt allows (post images) and library names that look like files (Three.js, Criterion.rs) */
+const ALLOWED_PATH = /^\/?blog\/images\/|^[A-Z][\w]*\.(?:js|rs)$/;
+
+function collect(text: string, patterns: RegExp[]): string[] {
+  const terms: string[] = [];
+  for (const pattern of patterns) {
+    for (const match of text.matchAll(pattern)) {
+      const term = (match[1] ?? match[2] ?? match[0]).trim();
+      if (term.length >= MIN_TERM_LENGTH) terms.push(term);
+    }
+  }
+  return terms;
+}
+
+/**
+ * Identifier-, path- and code-shaped tokens in a piece of commit text
+ */
+export function extractSensitiveTerms(text: string): string[] {
+  return [...new Set([...collect(text, IDENTIFIER_PATTERNS), ...collect(text, PATH_PATTERNS)])];
+}
+
+/**
+ * Terms named by Redact-Notes: quoted text plus anything identifier- or path-shaped
+ */
+export function extractRedactTerms(notes: string): string[] {
+  return [...new Set([...collect(notes, [QUOTED]), ...extractSensitiveTerms(notes)])];
+}
+
+/**
+ * Scopes of a conventional subject: "feat(auth-bridge,gateway): ..." → auth-bridge, gateway
+ */
+function getSubjectScopes(subject: string): string[] {
+  const scope = subject.match(/^\w+\(([^)]+)\)/)?.[1] ?? '';
+  return scope.split(',').map(part => part.trim()).filter(part => part.length >= MIN_TERM_LENGTH);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function findLines(lines: string[], term: string): number[] {
+  // Word boundaries only where the term itself starts/ends with a word character
+  const start = /^\w/.test(term) ? '\\b' : '';
+  const end = /\w$/.test(term) ? '\\b' : '';
+  const pattern = new RegExp(`${start}${escapeRegExp(term)}${end}`, 'i');
+  return lines.flatMap((line, i) => pattern.test(line) ? [i + 1] : []);
+}
+
+/**
+ * Scan a post against the commits it was generated from
+ * Terms that also appear in a public commit are fair game and not reported as skip leaks.
+ */
+export function checkConfidentiality(
+  post: string,
+  commits: ParsedCommit[],
+  waivers: string[] = []
+): ConfidentialityFinding[] {
+  const lines = post.replace(/\r\n/g, '\n').split('\n');
+  const waived = new Set(waivers.map(waiver => waiver.toLowerCase()));
+  const findings: ConfidentialityFinding[] = [];
+  const reported = new Set<string>();
+
+  const report = (finding: ConfidentialityFinding) => {
+    const key = `${finding.line}:${finding.term.toLowerCase()}`;
+    if (waived.has(finding.term.toLowerCase()) || reported.has(key)) return;
+    reported.add(key);
+    findings.push(finding);
+  };
+
+  const publicText = commits
+    .filter(commit => commit.trailers.confidentiality === 'public' && commit.trailers.blogIntent !== 'skip')
+    .map(commit => `${commit.subject}\n${commit.body}`)
+    .join('\n')
+    .toLowerCase();
+
+  for (const commit of commits) {
+    const hash = getShortHash(commit.hash);
+    const { confidentiality, blogIntent, redactNotes } = commit.trailers;
+
+    if (redactNotes) {
+      for (const term of extractRedactTerms(redactNotes)) {
+        for (const line of findLines(lines, term)) {
+          report({ kind: 'redact-note', term, line, commit: hash, message: `"${term}" is listed in Redact-Notes of ${hash}` });
+        }
+      }
+    }
+
+    if (confidentiality === 'skip' || blogIntent === 'skip') {
+      const terms = [
+        commit.hash.slice(0, 7),
+        ...getSubjectScopes(commit.subject),
+        ...extractSensitiveTerms(`${commit.subject}\n${commit.description}`),
+      ];
+      for (const term of terms) {
+        if (publicText.includes(term.toLowerCase())) continue;
+        for (const line of findLines(lines, term)) {
+          report({ kind: 'skipped-commit', term, line, commit: hash, message: `"${term}" comes from skipped commit ${hash}` });
+        }
+      }
+    }
+  }
+
+  // Paths inside fenced code are code, not prose that leaks them
+  stripCodeFences(lines.join('\n')).split('\n').forEach((text, i) => {
+    // URLs are links, not file paths
+    const withoutUrls = text.replace(/\b[a-z][\w+.-]*:\/\/\S+/gi, '');
+    const paths = collect(withoutUrls, PATH_PATTERNS).filter(term => !ALLOWED_PATH.test(term));
+    for (const term of new Set(paths)) {
+      // "foo.rs" inside "src/foo.rs" is the same finding
+      if (paths.some(other => other !== term && other.includes(term))) continue;
+      report({ kind: 'file-path', term, line: i + 1, message: `"${term}" looks like a file path or file name` });
+    }
+  });
+
+  return findings.sort((a, b) => a.line - b.line);
+}
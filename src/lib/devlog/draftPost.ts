@@ -0,0 +1,136 @@
+/**
+ * Draft post rendering
+ * Turns a week of commits into a draft blog post skeleton with valid frontmatter
+ */
+
+import { Document, isMap, isSeq, parse } from 'yaml';
+import type { CanonicalTaxonomy } from '../taxonomyLint';
+import type { DateRange } from './commits';
+import type { ParsedCommit } from './trailers';
+import type { ChangeNature, ScopeImpact } from '../changeTraits';
+import { collectChangeTraits, collectTechTerms, isPostable } from './frontmatterTerms';
+
+export interface DraftPostInput {
+  commits: ParsedCommit[];
+  range: DateRange;
+  /** Id of an entry in src/content/projects */
+  project: string;
+  title?: string;
+  /** Canonicalizes Tech-* terms when given */
+  taxonomy?: CanonicalTaxonomy;
+}
+
+export interface DraftFrontmatter {
+  title: string;
+  date: string;
+  description: string;
+  project: string;
+  tags: string[];
+  languages: string[];
+  patterns: string[];
+  architectures: string[];
+  changeNature?: ChangeNature[];
+  scopeImpact?: ScopeImpact;
+  /** Short hashes of the postable commits, so the build guard knows the post's source */
+  sourceCommits: string[];
+  draft: true;
+}
+
+const DEFAULT_TAGS = ['devlog', 'weekly'];
+const SHORT_HASH_LENGTH = 8;
+const CONVENTIONAL_PREFIX = /^\w+(\([^)]*\))?!?:\s*/;
+const FRONTMATTER = /^\s*---\r?\n([\s\S]*?)\r?\n---\r?\n?/;
+// Models like to wrap the whole answer in a markdown fence
+const WRAPPING_FENCE = /^\s*```(?:markdown|md)?\r?\n([\s\S]*?)\r?\n```\s*$/;
+
+/**
+ * "feat(graph-api): add SignalMap" → "Add SignalMap"
+ */
+export function summarizeSubject(subject: string): string {
+  const text = subject.replace(CONVENTIONAL_PREFIX, '').trim();
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+export function getShortHash(hash: string): string {
+  return hash.slice(0, SHORT_HASH_LENGTH);
+}
+
+export function getDraftFileName(range: DateRange, project: string): string {
+  return `${range.until}-${project}-weekly.md`;
+}
+
+export function buildDraftFrontmatter({ commits, range, project, title, taxonomy }: DraftPostInput): DraftFrontmatter {
+  const count = commits.filter(isPostable).length;
+  const { terms } = collectTechTerms(commits, taxonomy);
+  return {
+    title: title ?? `Weekly Progress — ${range.since} to ${range.until}`,
+    date: range.until,
+    description: `${count} commit${count !== 1 ? 's' : ''} from ${range.since} to ${range.until}.`,
+    project,
+    tags: DEFAULT_TAGS,
+    ...terms,
+    ...collectChangeTraits(commits),
+    sourceCommits: commits.filter(isPostable).map(commit => getShortHash(commit.hash)),
+    draft: true,
+  };
+}
+
+/**
+ * Glance line for a commit: its Blog-Summary, else the subject. Redacted commits
+ * only ever show their summary, since subjects often carry internal names.
+ */
+function getGlanceLine(commit: ParsedCommit): string | null {
+  if (commit.trailers.blogSummary) return commit.trailers.blogSummary;
+  return commit.trailers.confidentiality === 'public' ? summarizeSubject(commit.subject) : null;
+}
+
+/**
+ * Frontmatter block in the style of the existing posts (flow sequences, no line wrapping)
+ */
+export function renderFrontmatter(frontmatter: object): string {
+  const doc = new Document(frontmatter);
+  if (isMap(doc.contents)) {
+    for (const pair of doc.contents.items) {
+      if (isSeq(pair.value)) pair.value.flow = true;
+    }
+  }
+  return `---\n${doc.toString({ lineWidth: 0, flowCollectionPadding: false }).trimEnd()}\n---\n`;
+}
+
+export function renderDraftPost(input: DraftPostInput): string {
+  const lines = input.commits
+    .filter(isPostable)
+    .map(getGlanceLine)
+    .filter((line): line is string => line !== null);
+  const glance = lines.length > 0
+    ? lines.map(line => `- ${line}`).join('\n')
+    : '- No commits this week.';
+
+  return `${renderFrontmatter(buildDraftFrontmatter(input))}
+## Week at a Glance
+
+${glance}
+`;
+}
+
+/**
+ * Normalize a provider's answer into a draft post. The model may pick the title and
+ * description; date, project, taxonomy and draft status always come from the commits.
+ */
+export function finalizeGeneratedPost(output: string, input: DraftPostInput): string {
+  const text = output.match(WRAPPING_FENCE)?.[1] ?? output;
+  const match = text.match(FRONTMATTER);
+  const generated = (match ? parse(match[1]) : null) as Partial<DraftFrontmatter> | null;
+  const body = (match ? text.slice(match[0].length) : text).trim();
+  const base = buildDraftFrontmatter(input);
+
+  const frontmatter: DraftFrontmatter = {
+    ...base,
+    title: typeof generated?.title === 'string' && generated.title.trim() ? generated.title.trim() : base.title,
+    description: typeof generated?.description === 'string' && generated.description.trim()
+      ? generated.description.trim()
+      : base.description,
+  };
+
+  return `${renderFrontmatter(frontmatter)}\n${body}\n`;
+}
@@ -0,0 +1,34 @@
+/**
+ * Fixture git repos for exercising the devlog pipeline against real history
+ */
+
+import { mkdir } from 'node:fs/promises';
+import { runGit } from './commits';
+
+export interface FixtureCommit {
+  /** Full commit message: subject, blank line, body and trailers */
+  message: string;
+  /** Used for both author and committer date */
+  date: Date;
+}
+
+/**
+ * Initialise a repo in `dir` (created if missing) holding the given commits in order
+ */
+export async function createFixtureRepo(dir: string, commits: FixtureCommit[]): Promise<string> {
+  await mkdir(dir, { recursive: true });
+  await runGit(dir, ['init', '--quiet']);
+  await runGit(dir, ['config', 'user.name', 'Devlog Fixture']);
+  await runGit(dir, ['config', 'user.email', 'fixture@example.com']);
+  await runGit(dir, ['config', 'commit.gpgsign', 'false']);
+
+  for (const { message, date } of commits) {
+    const timestamp = date.toISOString();
+    await runGit(dir, ['commit', '--quiet', '--allow-empty', '--cleanup=verbatim', '-m', message], {
+      GIT_AUTHOR_DATE: timestamp,
+      GIT_COMMITTER_DATE: timestamp,
+    });
+  }
+
+  return dir;
+}
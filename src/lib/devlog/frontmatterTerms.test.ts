@@ -0,0 +1,98 @@
+/**
+ * Frontmatter terms and project inference tests
+ */
+
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { buildCanonicalTaxonomy } from '../taxonomyLint';
+import { runGit } from './commits';
+import { createFixtureRepo } from './fixtureRepo';
+import { collectChangeTraits, collectTechTerms } from './frontmatterTerms';
+import { inferProject } from './project';
+import { parseCommit } from './trailers';
+
+function commit(hash: string, body: string) {
+  return parseCommit({ hash, subject: `feat: ${hash}`, body });
+}
+
+const COMMITS = [
+  commit('aaa', 'Tech-Lang: rust\nTech-Patterns: Arena\nChange-Nature: performance\nScope-Impact: module'),
+  commit('bbb', 'Tech-Lang: Rust, Zig\nTech-Arch: Plugin Host'),
+  commit('ccc', 'Confidentiality: skip\nTech-Lang: Haskell\nTech-Patterns: Secret Sauce\nScope-Impact: foundational'),
+  commit('ddd', 'Blog-Intent: skip\nTech-Arch: Internal Mesh\nChange-Nature: security'),
+];
+
+const TAXONOMY = buildCanonicalTaxonomy({
+  languages: { Rust: null },
+  patterns: { Arena: ['Arena Allocation'] },
+});
+
+describe('collectTechTerms', () => {
+  it('never takes terms from skipped commits', () => {
+    const { terms } = collectTechTerms(COMMITS);
+    assert.deepEqual(terms, {
+      languages: ['rust', 'Zig'],
+      patterns: ['Arena'],
+      architectures: ['Plugin Host'],
+    });
+  });
+
+  it('canonicalizes against the taxonomy and reports unknown terms', () => {
+    const { terms, unknown } = collectTechTerms(COMMITS, TAXONOMY);
+    assert.deepEqual(terms.languages, ['Rust', 'Zig']);
+    assert.deepEqual(unknown.map(issue => [issue.taxonomy, issue.term]), [
+      ['languages', 'Zig'],
+      ['architectures', 'Plugin Host'],
+    ]);
+  });
+});
+
+describe('collectChangeTraits', () => {
+  it('ignores skipped commits', () => {
+    assert.deepEqual(collectChangeTraits(COMMITS), { changeNature: ['performance'], scopeImpact: 'module' });
+  });
+
+  it('leaves fields out when no commit sets them', () => {
+    assert.deepEqual(collectChangeTraits([commit('eee', 'Tech-Lang: Rust')]), {});
+  });
+});
+
+describe('inferProject', () => {
+  const PROJECTS = [
+    { id: 'xtranodly', name: 'Xtranodly' },
+    { id: 'spatium', name: 'Spatium' },
+    { id: 'bazaar', name: 'Bazaar' },
+  ];
+  let root: string;
+
+  before(async () => {
+    root = await mkdtemp(path.join(tmpdir(), 'devlog-project-'));
+  });
+
+  after(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('matches the repo directory name', async () => {
+    const repo = await createFixtureRepo(path.join(root, 'xtranodly-core'), []);
+    assert.equal(await inferProject(repo, PROJECTS), 'xtranodly');
+  });
+
+  it('falls back to the origin remote', async () => {
+    const repo = await createFixtureRepo(path.join(root, 'checkout'), []);
+    await runGit(repo, ['remote', 'add', 'origin', 'git@github.com:someone/Spatium.git']);
+    assert.equal(await inferProject(repo, PROJECTS), 'spatium');
+  });
+
+  it('gives up when nothing or more than one project matches', async () => {
+    const unrelated = await createFixtureRepo(path.join(root, 'dotfiles'), []);
+    assert.equal(await inferProject(unrelated, PROJECTS), undefined);
+
+    const ambiguous = await createFixtureRepo(path.join(root, 'bazaar'), []);
+    await runGit(ambiguous, ['remote', 'add', 'origin', 'https://example.com/someone/spatium.git']);
+    assert.equal(await inferProject(ambiguous, PROJECTS), undefined);
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Frontmatter terms from trailers
+ * Aggregates Tech-Lang / Tech-Patterns / Tech-Arch across a week's commits into the
+ * post's languages / patterns / architectures, canonicalized against the taxonomy,
+ * and Change-Nature / Scope-Impact into changeNature / scopeImpact
+ */
+
+import { getWidestScope, sortChangeNatures, type ChangeNature, type ScopeImpact } from '../changeTraits';
+import { fixTerms, lintTerms, type CanonicalTaxonomy, type TermIssue } from '../taxonomyLint';
+import type { TaxonomyKey } from '../taxonomy';
+import type { ParsedCommit } from './trailers';
+
+export type TechTerms = Record<Exclude<TaxonomyKey, 'tags'>, string[]>;
+
+export interface ChangeTraits {
+  changeNature?: ChangeNature[];
+  scopeImpact?: ScopeImpact;
+}
+
+type TechTrailer = 'techLang' | 'techPatterns' | 'techArch';
+
+const TRAILER_TAXONOMIES: [keyof TechTerms, TechTrailer][] = [
+  ['languages', 'techLang'],
+  ['patterns', 'techPatterns'],
+  ['architectures', 'techArch'],
+];
+
+/**
+ * Whether a commit may feed the post at all (Confidentiality: skip or Blog-Intent: skip never do)
+ */
+export function isPostable(commit: ParsedCommit): boolean {
+  return commit.trailers.confidentiality !== 'skip' && commit.trailers.blogIntent !== 'skip';
+}
+
+function dedupe(terms: string[]): string[] {
+  const seen = new Set<string>();
+  return terms.filter(term => {
+    const key = term.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Collect the week's terms, first-seen order. With a taxonomy, aliases and casing are
+ * rewritten to the preferred spelling; terms it doesn't know are kept and reported.
+ */
+export function collectTechTerms(commits: ParsedCommit[], canonical?: CanonicalTaxonomy) {
+  const terms = {} as TechTerms;
+  const unknown: TermIssue[] = [];
+  const postable = commits.filter(isPostable);
+
+  for (const [taxonomy, field] of TRAILER_TAXONOMIES) {
+    const raw = dedupe(postable.flatMap(commit => commit.trailers[field]));
+    if (!canonical) {
+      terms[taxonomy] = raw;
+      continue;
+    }
+
+    const issues = lintTerms(taxonomy, raw, canonical);
+    terms[taxonomy] = fixTerms(raw, issues);
+    unknown.push(...issues.filter(issue => issue.kind === 'unknown'));
+  }
+
+  return { terms, unknown };
+}
+
+/**
+ * Every nature present in the week, and the widest scope any commit reached
+ * Fields are left out when no commit sets them, keeping the frontmatter lean.
+ */
+export function collectChangeTraits(commits: ParsedCommit[]): ChangeTraits {
+  const postable = commits.filter(isPostable);
+  const changeNature = sortChangeNatures(postable.flatMap(commit => commit.trailers.changeNature));
+  const scopeImpact = getWidestScope(postable.map(commit => commit.trailers.scopeImpact));
+  return {
+    ...(changeNature.length > 0 && { changeNature }),
+    ...(scopeImpact && { scopeImpact }),
+  };
+}
@@ -0,0 +1,13 @@
+/**
+ * Devlog pipeline: collect commits from git, then render a draft post
+ */
+
+export * from './commits';
+export * from './draftPost';
+export * from './fixtureRepo';
+export * from './trailers';
+export * from './frontmatterTerms';
+export * from './project';
+export * from './confidentiality';
+export * from './prompt';
+export * from './providers';
@@ -0,0 +1,152 @@
+/**
+ * Devlog pipeline tests
+ * Runs collection, the commit-block round trip, trailer parsing and draft rendering
+ * against a real git repo built by createFixtureRepo
+ */
+
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { parse } from 'yaml';
+import { formatCommitBlocks, parseCommitBlocks, readCommits, type DevlogCommit } from './commits';
+import { createFixtureRepo } from './fixtureRepo';
+import { parseCommit, parseTrailers } from './trailers';
+import { renderDraftPost } from './draftPost';
+
+const RANGE = { since: '2026-03-02', until: '2026-03-08' };
+
+const FIXTURE_COMMITS = [
+  {
+    // Day before the range
+    message: 'chore: bump toolchain',
+    date: new Date('2026-03-01T23:30:00Z'),
+  },
+  {
+    message: [
+      'feat(graph-api): per-context signal maps',
+      '',
+      'Scopes signal maps to a context so deleting one is O(1).',
+      '',
+      'Blog-Intent: highlight',
+      'Blog-Summary: Signal maps are now scoped per context',
+      'Change-Nature: architecture, new-component',
+      'Scope-Impact: cross-cutting',
+      'Tech-Lang: Rust',
+      'Tech-Patterns: Arena Allocation, Observer (signals, events)',
+      'Refs: https://example.com/design',
+    ].join('\n'),
+    date: new Date('2026-03-03T10:00:00Z'),
+  },
+  {
+    message: [
+      'fix(auth-bridge): rotate internal token',
+      '',
+      'Confidentiality: skip',
+      'Tech-Lang: Go',
+      'Tech-Arch: Token Broker',
+    ].join('\n'),
+    date: new Date('2026-03-05T12:00:00Z'),
+  },
+  {
+    message: [
+      'docs: describe the executor',
+      '',
+      'Confidentiality: secret',
+      'Blog-Intnet: normal',
+    ].join('\n'),
+    date: new Date('2026-03-08T23:59:00Z'),
+  },
+  {
+    // Day after the range
+    message: 'feat: next week',
+    date: new Date('2026-03-09T00:00:00Z'),
+  },
+];
+
+describe('devlog pipeline on a fixture repo', () => {
+  let dir: string;
+  let commits: DevlogCommit[];
+
+  before(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'devlog-fixture-'));
+    await createFixtureRepo(dir, FIXTURE_COMMITS);
+    commits = await readCommits(dir, RANGE);
+  });
+
+  after(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('collects only the commits inside the range, newest first', () => {
+    assert.deepEqual(commits.map(commit => commit.subject), [
+      'docs: describe the executor',
+      'fix(auth-bridge): rotate internal token',
+      'feat(graph-api): per-context signal maps',
+    ]);
+    for (const commit of commits) assert.match(commit.hash, /^[0-9a-f]{40}$/);
+  });
+
+  it('round-trips commits through the commit-block format', () => {
+    const blocks = formatCommitBlocks(commits);
+    assert.equal(blocks.split('=== COMMIT ===').length - 1, commits.length);
+
+    const parsed = parseCommitBlocks(blocks);
+    assert.deepEqual(
+      parsed.map(({ hash, subject, body }) => ({ hash, subject, body })),
+      commits.map(({ hash, subject, body }) => ({ hash, subject, body }))
+    );
+    // Body lines point back into the block text
+    const lines = blocks.split('\n');
+    for (const commit of parsed.filter(commit => commit.body)) {
+      assert.equal(lines[commit.bodyLine! - 1], commit.body.split('\n')[0]);
+    }
+  });
+
+  it('parses the trailers of collected commits', () => {
+    const feature = commits.find(commit => commit.subject.startsWith('feat'))!;
+    const { description, trailers, issues } = parseTrailers(feature.body);
+
+    assert.equal(description, 'Scopes signal maps to a context so deleting one is O(1).');
+    assert.deepEqual(issues, []);
+    assert.equal(trailers.blogIntent, 'highlight');
+    assert.equal(trailers.blogSummary, 'Signal maps are now scoped per context');
+    assert.deepEqual(trailers.changeNature, ['architecture', 'new-component']);
+    assert.equal(trailers.scopeImpact, 'cross-cutting');
+    assert.deepEqual(trailers.techLang, ['Rust']);
+    assert.deepEqual(trailers.techPatterns, ['Arena Allocation', 'Observer (signals, events)']);
+    assert.deepEqual(trailers.refs, ['https://example.com/design']);
+    assert.equal(trailers.confidentiality, 'public');
+  });
+
+  it('treats an unreadable Confidentiality as skip and flags typos', () => {
+    const docs = commits.find(commit => commit.subject.startsWith('docs'))!;
+    const { trailers, issues } = parseTrailers(docs.body);
+
+    assert.equal(trailers.confidentiality, 'skip');
+    assert.deepEqual(issues.map(issue => [issue.kind, issue.severity]), [
+      ['invalid-value', 'error'],
+      ['unknown', 'error'],
+    ]);
+    assert.match(issues[1].message, /did you mean "Blog-Intent"/);
+  });
+
+  it('drafts a post from the postable commits only', () => {
+    const post = renderDraftPost({ commits: commits.map(parseCommit), range: RANGE, project: 'xtranodly' });
+    const [, frontmatter, body] = post.split(/^---$/m);
+    const data = parse(frontmatter);
+
+    assert.equal(data.date, RANGE.until);
+    assert.equal(data.project, 'xtranodly');
+    assert.equal(data.draft, true);
+    assert.equal(data.description, `1 commit from ${RANGE.since} to ${RANGE.until}.`);
+    assert.deepEqual(data.languages, ['Rust']);
+    assert.deepEqual(data.architectures, []);
+    assert.deepEqual(data.changeNature, ['architecture', 'new-component']);
+    assert.equal(data.scopeImpact, 'cross-cutting');
+
+    assert.match(body, /^- Signal maps are now scoped per context$/m);
+    assert.doesNotMatch(body, /auth-bridge|executor/);
+  });
+});
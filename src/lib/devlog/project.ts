@@ -0,0 +1,42 @@
+/**
+ * Project inference
+ * Matches a repo's directory name or origin remote against the projects collection
+ */
+
+import path from 'node:path';
+import { runGit } from './commits';
+
+export interface ProjectRef {
+  id: string;
+  name: string;
+}
+
+function normalize(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+async function getRepoNames(repoDir: string): Promise<string[]> {
+  const names: string[] = [];
+
+  const topLevel = await runGit(repoDir, ['rev-parse', '--show-toplevel']).catch(() => '');
+  names.push(path.basename(topLevel.trim() || path.resolve(repoDir)));
+
+  const remote = await runGit(repoDir, ['remote', 'get-url', 'origin']).catch(() => '');
+  if (remote.trim()) {
+    names.push(remote.trim().replace(/\/+$/, '').replace(/\.git$/, '').split(/[/:]/).pop() ?? '');
+  }
+
+  return names.filter(Boolean);
+}
+
+/**
+ * Project id for a repo, or undefined when no project (or more than one) matches
+ */
+export async function inferProject(repoDir: string, projects: ProjectRef[]): Promise<string | undefined> {
+  const names = (await getRepoNames(repoDir)).map(normalize);
+  const matches = projects.filter(project => {
+    const keys = [normalize(project.id), normalize(project.name)];
+    return names.some(name => keys.some(key => name === key || name.startsWith(key)));
+  });
+  return matches.length === 1 ? matches[0].id : undefined;
+}
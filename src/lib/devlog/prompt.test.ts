@@ -0,0 +1,145 @@
+/**
+ * Prompt assembly and offline generation tests
+ */
+
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { describe, it } from 'node:test';
+import { parse } from 'yaml';
+import { formatCommitBlocks, parseCommitBlocks, readCommits } from './commits';
+import { finalizeGeneratedPost, type DraftPostInput } from './draftPost';
+import { createFixtureRepo } from './fixtureRepo';
+import { buildPrompt, buildTraitSummary, formatTraitSummary, TRAIT_SUMMARY_HEADING } from './prompt';
+import { createCommandProvider, createProvider } from './providers';
+import { parseCommit } from './trailers';
+
+const TEMPLATE_FILE = fileURLToPath(new URL('../../../weekly_prompt.txt', import.meta.url));
+const RANGE = { since: '2026-03-02', until: '2026-03-08' };
+
+function commit(hash: string, subject: string, body: string) {
+  return parseCommit({ hash: hash.repeat(8), subject, body });
+}
+
+const PUBLIC = commit(
+  'a1b2c3d4e5',
+  'perf(graph): cache topological order',
+  'Caches the sort between ticks.\nValidation: bench shows 3x fewer allocations\n\n' +
+    'Change-Nature: performance\nTradeoffs: more memory per graph\nRefs: https://example.com/bench'
+);
+const UNVALIDATED = commit(
+  'b2c3d4e5f6',
+  'refactor(ui): split panels',
+  'Validation: none\n\nChange-Nature: cleanup'
+);
+const SKIPPED = commit(
+  'c3d4e5f607',
+  'fix(auth-bridge): rotate TokenVault keys',
+  'Validation: rotated in staging\n\nConfidentiality: skip\nChange-Nature: security\nRefs: https://internal.example.com/x'
+);
+
+describe('buildTraitSummary', () => {
+  it('summarizes postable commits only', () => {
+    assert.deepEqual(buildTraitSummary([PUBLIC, UNVALIDATED, SKIPPED]), {
+      changeNatures: ['performance', 'cleanup'],
+      hasTradeoffs: true,
+      hasValidation: true,
+      hasRefs: true,
+    });
+  });
+
+  it('does not count "Validation: none" or skipped refs', () => {
+    assert.deepEqual(buildTraitSummary([UNVALIDATED, SKIPPED]), {
+      changeNatures: ['cleanup'],
+      hasTradeoffs: false,
+      hasValidation: false,
+      hasRefs: false,
+    });
+  });
+
+  it('formats as the template heading with yes/no lines', () => {
+    assert.equal(formatTraitSummary(buildTraitSummary([UNVALIDATED])), [
+      TRAIT_SUMMARY_HEADING,
+      'Change natures present: cleanup',
+      'Has tradeoffs: no',
+      'Has validation: no',
+      'Has refs: no',
+    ].join('\n'));
+  });
+});
+
+describe('buildPrompt', () => {
+  it('replaces the template week data and leaves skipped commits out', async () => {
+    const template = await readFile(TEMPLATE_FILE, 'utf8');
+    const prompt = buildPrompt(template, [PUBLIC, UNVALIDATED, SKIPPED], RANGE);
+
+    assert.equal(prompt.split(TRAIT_SUMMARY_HEADING).length, 2);
+    assert.match(prompt, /Change natures present: performance, cleanup\n/);
+    assert.match(prompt, /## COMMIT DATA FOR THIS WEEK \(2026-03-02 to 2026-03-08\)/);
+    assert.match(prompt, /### Commit: a1b2c3d4\n\*\*Subject:\*\* perf\(graph\): cache topological order/);
+    assert.match(prompt, /- Tradeoffs: more memory per graph/);
+    assert.doesNotMatch(prompt, /auth-bridge|TokenVault|c3d4e5f6/);
+    assert.match(prompt, /replacing \{START_DATE\} with "2026-03-02" and \{END_DATE\} with "2026-03-08"\.\n$/);
+  });
+});
+
+describe('offline generation', () => {
+  it('drafts a post from a fixture repo with the stub provider', async () => {
+    const dir = await mkdtemp(path.join(tmpdir(), 'devlog-generate-'));
+    try {
+      await createFixtureRepo(dir, [PUBLIC, UNVALIDATED, SKIPPED].map((source, i) => ({
+        message: `${source.subject}\n\n${source.body}`,
+        date: new Date(Date.UTC(2026, 2, 3 + i, 12)),
+      })));
+      const blocks = formatCommitBlocks(await readCommits(dir, RANGE));
+      const commits = parseCommitBlocks(blocks).map(parseCommit);
+      const draft: DraftPostInput = { commits, range: RANGE, project: 'xtranodly' };
+      const prompt = buildPrompt(await readFile(TEMPLATE_FILE, 'utf8'), commits, RANGE);
+
+      const generate = () => createProvider('stub').generate({ prompt, draft });
+      const output = await generate();
+      assert.equal(await generate(), output);
+
+      const post = finalizeGeneratedPost(output, draft);
+      const data = parse(post.split(/^---$/m)[1]);
+      assert.equal(data.draft, true);
+      assert.equal(data.description, `2 commits from ${RANGE.since} to ${RANGE.until}.`);
+      assert.deepEqual(data.changeNature, ['performance', 'cleanup']);
+      assert.equal(data.sourceCommits.length, 2);
+      assert.match(post, /^- Cache topological order$/m);
+      assert.match(post, /^- Split panels$/m);
+      assert.doesNotMatch(post, /auth-bridge|TokenVault/);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('keeps the frontmatter from the commits whatever the model answers', async () => {
+    const draft: DraftPostInput = { commits: [PUBLIC], range: RANGE, project: 'xtranodly' };
+    const dir = await mkdtemp(path.join(tmpdir(), 'devlog-answer-'));
+    try {
+      const answer = path.join(dir, 'answer.md');
+      await writeFile(answer, '```markdown\n---\ntitle: Faster ticks\ndate: 1999-01-01\ndraft: false\n---\n\nBody text.\n```\n');
+      const output = await createCommandProvider(`cat "${answer}"`).generate({ prompt: 'ignored', draft });
+
+      const post = finalizeGeneratedPost(output, draft);
+      const data = parse(post.split(/^---$/m)[1]);
+      assert.equal(data.title, 'Faster ticks');
+      assert.equal(data.date, RANGE.until);
+      assert.equal(data.draft, true);
+      assert.match(post, /\nBody text\.\n$/);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('rejects when the provider command fails', async () => {
+    const draft: DraftPostInput = { commits: [], range: RANGE, project: 'xtranodly' };
+    await assert.rejects(
+      createCommandProvider('node -e "process.exit(3)"').generate({ prompt: '', draft }),
+      /exited with code 3/
+    );
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Prompt assembly
+ * Fills the weekly_prompt.txt instructions with a Trait Summary computed from the
+ * parsed commits, followed by the commit data itself
+ */
+
+import type { DateRange } from './commits';
+import { isPostable } from './frontmatterTerms';
+import { sortChangeNatures, type ChangeNature } from '../changeTraits';
+import type { CommitTrailers, ParsedCommit } from './trailers';
+
+export interface TraitSummary {
+  changeNatures: ChangeNature[];
+  hasTradeoffs: boolean;
+  hasValidation: boolean;
+  hasRefs: boolean;
+}
+
+/** Where the instructions end in weekly_prompt.txt (anything after is a previous week's data) */
+export const TRAIT_SUMMARY_HEADING = '## TRAIT SUMMARY FOR THIS WEEK';
+
+// The value may start on the line after the label
+const VALIDATION_LINE = /^Validation:[ \t]*(.*)(?:\n(.*))?/im;
+const TRIVIAL_VALIDATION = /^(none|n\/a|na|-|no|todo|tbd)?\.?$/i;
+
+/**
+ * Whether the commit body reports real validation ("Validation: none" doesn't count)
+ */
+export function hasValidation(commit: ParsedCommit): boolean {
+  const match = commit.description.match(VALIDATION_LINE);
+  const value = (match?.[1] || match?.[2] || '').trim();
+  return !TRIVIAL_VALIDATION.test(value);
+}
+
+export function buildTraitSummary(commits: ParsedCommit[]): TraitSummary {
+  const postable = commits.filter(isPostable);
+
+  return {
+    changeNatures: sortChangeNatures(postable.flatMap(commit => commit.trailers.changeNature)),
+    hasTradeoffs: postable.some(({ trailers }) => !!(trailers.tradeoffs || trailers.pros || trailers.cons)),
+    hasValidation: postable.some(hasValidation),
+    hasRefs: postable.some(commit => commit.trailers.refs.length > 0),
+  };
+}
+
+export function formatTraitSummary(summary: TraitSummary): string {
+  const yesNo = (value: boolean) => value ? 'yes' : 'no';
+  return [
+    TRAIT_SUMMARY_HEADING,
+    `Change natures present: ${summary.changeNatures.join(', ') || 'none'}`,
+    `Has tradeoffs: ${yesNo(summary.hasTradeoffs)}`,
+    `Has validation: ${yesNo(summary.hasValidation)}`,
+    `Has refs: ${yesNo(summary.hasRefs)}`,
+  ].join('\n');
+}
+
+/**
+ * Validated trailers only, so a typo never reaches the model
+ */
+function formatTrailers(trailers: CommitTrailers): string[] {
+  const entries: [string, string | string[] | undefined][] = [
+    ['Blog-Intent', trailers.blogIntent],
+    ['Blog-Summary', trailers.blogSummary],
+    ['Change-Nature', trailers.changeNature],
+    ['Scope-Impact', trailers.scopeImpact],
+    ['Tradeoffs', trailers.tradeoffs],
+    ['Pros', trailers.pros],
+    ['Cons', trailers.cons],
+    ['Tech-Lang', trailers.techLang],
+    ['Tech-Patterns', trailers.techPatterns],
+    ['Tech-Arch', trailers.techArch],
+    ['Refs', trailers.refs],
+    ['Confidentiality', trailers.confidentiality],
+    ['Redact-Notes', trailers.redactNotes],
+    ['Diagram', trailers.diagram],
+  ];
+
+  return entries
+    .map(([key, value]) => [key, Array.isArray(value) ? value.join(', ') : value] as const)
+    .filter(([, value]) => !!value)
+    .map(([key, value]) => `- ${key}: ${value}`);
+}
+
+export function formatPromptCommit(commit: ParsedCommit): string {
+  const trailers = formatTrailers(commit.trailers);
+  return [
+    `### Commit: ${commit.hash.slice(0, 8)}`,
+    `**Subject:** ${commit.subject}`,
+    ...(commit.description ? ['**Body:**', commit.description] : []),
+    ...(trailers.length > 0 ? ['**Trailers:**', ...trailers] : []),
+  ].join('\n');
+}
+
+/**
+ * Instructions from the template, without any trailing week data or separator
+ */
+export function getPromptInstructions(template: string): string {
+  const end = template.indexOf(TRAIT_SUMMARY_HEADING);
+  const instructions = end === -1 ? template : template.slice(0, end);
+  return instructions.replace(/(\s*---\s*)+$/, '').trimEnd();
+}
+
+/**
+ * Full prompt for a week. Skipped commits are left out entirely, so the model never sees them.
+ */
+export function buildPrompt(template: string, commits: ParsedCommit[], range: DateRange): string {
+  const postable = commits.filter(isPostable);
+
+  return [
+    getPromptInstructions(template),
+    '---',
+    formatTraitSummary(buildTraitSummary(commits)),
+    '---',
+    `## COMMIT DATA FOR THIS WEEK (${range.since} to ${range.until})`,
+    postable.map(formatPromptCommit).join('\n\n---\n\n'),
+    '---',
+    `Please generate the weekly blog post now, replacing {START_DATE} with "${range.since}" and {END_DATE} with "${range.until}".`,
+  ].join('\n\n') + '\n';
+}
@@ -0,0 +1,75 @@
+/**
+ * Model providers
+ * generate-post hands the assembled prompt to a provider and gets markdown back.
+ * The stub renders the draft skeleton locally, so the whole flow runs offline.
+ */
+
+import { spawn } from 'node:child_process';
+import { renderDraftPost, type DraftPostInput } from './draftPost';
+
+export interface GenerationRequest {
+  prompt: string;
+  /** Structured input behind the prompt, for providers that don't need a model */
+  draft: DraftPostInput;
+}
+
+export interface ModelProvider {
+  name: string;
+  generate(request: GenerationRequest): Promise<string>;
+}
+
+export const PROVIDER_NAMES = ['stub', 'command'] as const;
+
+export type ProviderName = typeof PROVIDER_NAMES[number];
+
+export interface ProviderOptions {
+  /** Shell command for the command provider: reads the prompt on stdin, writes the post to stdout */
+  command?: string;
+}
+
+/**
+ * Deterministic offline provider: same commits in, same post out
+ */
+export function createStubProvider(): ModelProvider {
+  return {
+    name: 'stub',
+    generate: async ({ draft }) => renderDraftPost(draft),
+  };
+}
+
+/**
+ * Pipe the prompt through any local CLI that talks to a model
+ */
+export function createCommandProvider(command: string): ModelProvider {
+  return {
+    name: 'command',
+    generate: ({ prompt }) => new Promise((resolve, reject) => {
+      const child = spawn(command, { shell: true, stdio: ['pipe', 'pipe', 'inherit'] });
+      let output = '';
+      child.stdout.setEncoding('utf8');
+      child.stdout.on('data', chunk => { output += chunk; });
+      child.on('error', reject);
+      // A command that exits without reading its input is reported by its exit code
+      child.stdin.on('error', () => {});
+      child.on('close', code => {
+        if (code === 0) resolve(output);
+        else reject(new Error(`Provider command exited with code ${code}: ${command}`));
+      });
+      child.stdin.end(prompt);
+    }),
+  };
+}
+
+export function isProviderName(value: string): value is ProviderName {
+  return (PROVIDER_NAMES as readonly string[]).includes(value);
+}
+
+export function createProvider(name: ProviderName, options: ProviderOptions = {}): ModelProvider {
+  switch (name) {
+    case 'stub':
+      return createStubProvider();
+    case 'command':
+      if (!options.command) throw new Error('The command provider needs a command to run');
+      return createCommandProvider(options.command);
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Trailer parsing tests
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseTrailers, splitTrailerList } from './trailers';
+
+describe('parseTrailers', () => {
+  it('defaults to public when no Confidentiality is given', () => {
+    assert.equal(parseTrailers('Body.\n\nBlog-Intent: normal').trailers.confidentiality, 'public');
+  });
+
+  it('fails closed to skip on a misspelled Confidentiality key', () => {
+    const { trailers, issues } = parseTrailers('Body.\n\nBlog-Intent: normal\nConfidentialty: skip', 10);
+    assert.equal(trailers.confidentiality, 'skip');
+    assert.deepEqual(issues.map(({ kind, severity, line }) => ({ kind, severity, line })), [
+      { kind: 'unknown', severity: 'error', line: 13 },
+    ]);
+    assert.match(issues[0].message, /did you mean "Confidentiality"/);
+  });
+
+  it('reads a block whose only trailer is a misspelled Confidentiality', () => {
+    const { description, trailers, issues } = parseTrailers('Internal token rotation.\n\nConfidentality: skip');
+    assert.equal(description, 'Internal token rotation.');
+    assert.equal(trailers.confidentiality, 'skip');
+    assert.equal(issues.length, 1);
+  });
+
+  it('fails closed to skip on an invalid Confidentiality value', () => {
+    const { trailers, issues } = parseTrailers('Confidentiality: secret');
+    assert.equal(trailers.confidentiality, 'skip');
+    assert.equal(issues[0].kind, 'invalid-value');
+  });
+
+  it('keeps other unknown keys as warnings without touching Confidentiality', () => {
+    const { trailers, issues } = parseTrailers('Blog-Intent: normal\nReviewed-By: someone');
+    assert.equal(trailers.confidentiality, 'public');
+    assert.deepEqual(issues.map(issue => [issue.kind, issue.severity]), [['unknown', 'warning']]);
+  });
+});
+
+describe('splitTrailerList', () => {
+  it('keeps commas inside parentheses', () => {
+    assert.deepEqual(splitTrailerList('layered (Graph → SignalGraph, Port), data-driven,'), [
+      'layered (Graph → SignalGraph, Port)',
+      'data-driven',
+    ]);
+  });
+});
@@ -0,0 +1,332 @@
+/**
+ * Commit trailers
+ * Parses the trailer block at the end of a commit body into a typed object,
+ * validating values against the vocabulary documented in weekly_prompt.txt
+ */
+
+import { termSimilarity } from '../taxonomyLint';
+import { CHANGE_NATURES, SCOPE_IMPACTS, type ChangeNature, type ScopeImpact } from '../changeTraits';
+import type { DevlogCommit } from './commits';
+
+export { CHANGE_NATURES, SCOPE_IMPACTS, type ChangeNature, type ScopeImpact };
+
+export const BLOG_INTENTS = ['highlight', 'normal', 'skip'] as const;
+export const CONFIDENTIALITY_LEVELS = ['public', 'redact', 'skip'] as const;
+
+export type BlogIntent = typeof BLOG_INTENTS[number];
+export type Confidentiality = typeof CONFIDENTIALITY_LEVELS[number];
+
+export interface CommitTrailers {
+  blogIntent: BlogIntent;
+  blogSummary?: string;
+  changeNature: ChangeNature[];
+  scopeImpact?: ScopeImpact;
+  tradeoffs?: string;
+  techLang: string[];
+  techPatterns: string[];
+  techArch: string[];
+  refs: string[];
+  confidentiality: Confidentiality;
+  redactNotes?: string;
+  /** Diagram or Mermaid trailer: a diagram hint or inline Mermaid source */
+  diagram?: string;
+  /** Legacy trailers, read as input for Considerations */
+  pros?: string;
+  cons?: string;
+}
+
+export type TrailerIssueKind = 'malformed' | 'unknown' | 'invalid-value' | 'empty' | 'duplicate';
+
+export interface TrailerIssue {
+  kind: TrailerIssueKind;
+  severity: 'error' | 'warning';
+  /** 1-based line in the source the body was read from */
+  line: number;
+  key?: string;
+  message: string;
+}
+
+export interface ParsedCommit extends DevlogCommit {
+  /** Body text above the trailer block */
+  description: string;
+  trailers: CommitTrailers;
+  issues: TrailerIssue[];
+}
+
+type TextField = 'blogSummary' | 'tradeoffs' | 'redactNotes' | 'diagram' | 'pros' | 'cons';
+type ListField = 'techLang' | 'techPatterns' | 'techArch';
+
+const ENUM_VALUES = {
+  blogIntent: BLOG_INTENTS,
+  scopeImpact: SCOPE_IMPACTS,
+  confidentiality: CONFIDENTIALITY_LEVELS,
+};
+
+type EnumField = keyof typeof ENUM_VALUES;
+type TrailerField = TextField | ListField | EnumField | 'changeNature' | 'refs';
+
+type TrailerSpec =
+  | { key: string; field: TextField; kind: 'text' }
+  | { key: string; field: ListField; kind: 'list' }
+  | { key: string; field: EnumField; kind: 'enum' }
+  | { key: string; field: 'changeNature'; kind: 'enum-list' }
+  | { key: string; field: 'refs'; kind: 'urls' };
+
+const TRAILER_SPECS: TrailerSpec[] = [
+  { key: 'Blog-Intent', field: 'blogIntent', kind: 'enum' },
+  { key: 'Blog-Summary', field: 'blogSummary', kind: 'text' },
+  { key: 'Change-Nature', field: 'changeNature', kind: 'enum-list' },
+  { key: 'Scope-Impact', field: 'scopeImpact', kind: 'enum' },
+  { key: 'Tradeoffs', field: 'tradeoffs', kind: 'text' },
+  { key: 'Tech-Lang', field: 'techLang', kind: 'list' },
+  { key: 'Tech-Patterns', field: 'techPatterns', kind: 'list' },
+  { key: 'Tech-Arch', field: 'techArch', kind: 'list' },
+  { key: 'Refs', field: 'refs', kind: 'urls' },
+  { key: 'Confidentiality', field: 'confidentiality', kind: 'enum' },
+  { key: 'Redact-Notes', field: 'redactNotes', kind: 'text' },
+  { key: 'Diagram', field: 'diagram', kind: 'text' },
+  { key: 'Mermaid', field: 'diagram', kind: 'text' },
+  { key: 'Pros', field: 'pros', kind: 'text' },
+  { key: 'Cons', field: 'cons', kind: 'text' },
+];
+
+/** Older commits may carry these; accepted and dropped */
+const IGNORED_TRAILERS = ['Blog-Audience'];
+
+const SPECS_BY_KEY = new Map(TRAILER_SPECS.map(spec => [spec.key.toLowerCase(), spec]));
+const KNOWN_KEYS = [...TRAILER_SPECS.map(spec => spec.key), ...IGNORED_TRAILERS];
+const KNOWN_KEY_SET = new Set(KNOWN_KEYS.map(key => key.toLowerCase()));
+
+const TRAILER_LINE = /^([A-Za-z][\w/-]*)\s*:\s*(.*)$/;
+const CONTINUATION_LINE = /^\s+\S/;
+const SUGGESTION_THRESHOLD = 0.6;
+const CONFIDENTIALITY_KEY = 'Confidentiality';
+
+/**
+ * The member of `values` equal to `value`, typed as that vocabulary
+ */
+function pickValue<T extends string>(values: readonly T[], value: string | undefined): T | undefined {
+  return values.find(candidate => candidate === value);
+}
+
+function closest(value: string, candidates: readonly string[]): string | undefined {
+  let best: string | undefined;
+  let bestScore = SUGGESTION_THRESHOLD;
+  for (const candidate of candidates) {
+    const score = termSimilarity(value, candidate);
+    if (score >= bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/**
+ * Split a comma-separated trailer value, keeping commas inside parentheses
+ * ("layered (Graph → SignalGraph), data-driven" is two items)
+ */
+export function splitTrailerList(value: string): string[] {
+  const items: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of value) {
+    if (char === '(' || char === '[') depth++;
+    if ((char === ')' || char === ']') && depth > 0) depth--;
+    if (char === ',' && depth === 0) {
+      items.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  items.push(current);
+  return items.map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * A misspelled Confidentiality key ("Confidentialty: skip") must not leave the commit public
+ */
+function isConfidentialityTypo(key: string): boolean {
+  return !KNOWN_KEY_SET.has(key.toLowerCase()) && closest(key, KNOWN_KEYS) === CONFIDENTIALITY_KEY;
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+interface RawTrailer {
+  key: string;
+  value: string;
+  line: number;
+}
+
+/**
+ * Locate the trailer block: the last paragraph of the body, provided it names
+ * at least one known trailer. Returns its raw entries plus any malformed lines.
+ */
+function readTrailerBlock(lines: string[], firstLine: number) {
+  let end = lines.length;
+  while (end > 0 && lines[end - 1].trim() === '') end--;
+  let start = end;
+  while (start > 0 && lines[start - 1].trim() !== '') start--;
+
+  const paragraph = lines.slice(start, end);
+  const namesKnownTrailer = paragraph.some(line => {
+    const match = line.match(TRAILER_LINE);
+    return match && (KNOWN_KEY_SET.has(match[1].toLowerCase()) || isConfidentialityTypo(match[1]));
+  });
+  if (!namesKnownTrailer) return { start: end, raw: [], malformed: [] };
+
+  const raw: RawTrailer[] = [];
+  const malformed: TrailerIssue[] = [];
+  paragraph.forEach((text, i) => {
+    const line = firstLine + start + i;
+    const previous = raw[raw.length - 1];
+    const match = text.match(TRAILER_LINE);
+
+    if (CONTINUATION_LINE.test(text) && previous) {
+      previous.value += `\n${text.trim()}`;
+    } else if (match) {
+      raw.push({ key: match[1], value: match[2].trim(), line });
+    } else {
+      malformed.push({
+        kind: 'malformed',
+        severity: 'error',
+        line,
+        message: `"${text.trim()}" is not a "Key: value" trailer`,
+      });
+    }
+  });
+
+  return { start, raw, malformed };
+}
+
+/**
+ * Parse and validate the trailers of a commit body
+ * `firstLine` is the source line of the body's first line, so issues point into the input file
+ */
+export function parseTrailers(body: string, firstLine: number = 1) {
+  const lines = body.replace(/\r\n/g, '\n').split('\n');
+  const { start, raw, malformed } = readTrailerBlock(lines, firstLine);
+  const text: Partial<Record<TextField, string>> = {};
+  const lists: Record<ListField, string[]> = { techLang: [], techPatterns: [], techArch: [] };
+  const enums: Partial<Record<EnumField, string>> = {};
+  const changeNature: ChangeNature[] = [];
+  const refs: string[] = [];
+  // An unreadable or misspelled Confidentiality must not default to public
+  let unreadableConfidentiality = false;
+  const issues: TrailerIssue[] = [...malformed];
+  const seen = new Set<TrailerField>();
+
+  for (const { key, value, line } of raw) {
+    const spec = SPECS_BY_KEY.get(key.toLowerCase());
+
+    if (!spec) {
+      if (KNOWN_KEY_SET.has(key.toLowerCase())) continue;
+      const suggestion = closest(key, KNOWN_KEYS);
+      if (suggestion === CONFIDENTIALITY_KEY) unreadableConfidentiality = true;
+      issues.push({
+        kind: 'unknown',
+        // A near miss of a real trailer is a typo whose value would otherwise be lost
+        severity: suggestion ? 'error' : 'warning',
+        line,
+        key,
+        message: suggestion
+          ? `Unknown trailer "${key}" (did you mean "${suggestion}"?)`
+          : `Unknown trailer "${key}"`,
+      });
+      continue;
+    }
+
+    if (!value) {
+      issues.push({ kind: 'empty', severity: 'error', line, key: spec.key, message: `${spec.key} has no value` });
+      continue;
+    }
+
+    const isList = spec.kind === 'list' || spec.kind === 'enum-list' || spec.kind === 'urls';
+    if (!isList && seen.has(spec.field)) {
+      issues.push({ kind: 'duplicate', severity: 'error', line, key: spec.key, message: `${spec.key} is set more than once (first value kept)` });
+      continue;
+    }
+    seen.add(spec.field);
+
+    const invalid = (entry: string, allowed?: readonly string[]) => {
+      const suggestion = allowed && closest(entry, allowed);
+      issues.push({
+        kind: 'invalid-value',
+        severity: 'error',
+        line,
+        key: spec.key,
+        message: allowed
+          ? `${spec.key}: "${entry}" is not one of ${allowed.join('|')}${suggestion ? ` (did you mean "${suggestion}"?)` : ''}`
+          : `${spec.key}: "${entry}" is not an http(s) URL`,
+      });
+    };
+
+    switch (spec.kind) {
+      case 'text':
+        text[spec.field] = value;
+        break;
+      case 'list':
+        lists[spec.field].push(...splitTrailerList(value));
+        break;
+      case 'enum': {
+        const normalized = value.toLowerCase();
+        const allowed: readonly string[] = ENUM_VALUES[spec.field];
+        if (allowed.includes(normalized)) {
+          enums[spec.field] = normalized;
+        } else {
+          invalid(value, allowed);
+          if (spec.field === 'confidentiality') unreadableConfidentiality = true;
+        }
+        break;
+      }
+      case 'enum-list':
+        for (const entry of splitTrailerList(value)) {
+          const nature = pickValue(CHANGE_NATURES, entry.toLowerCase());
+          if (nature) changeNature.push(nature);
+          else invalid(entry, CHANGE_NATURES);
+        }
+        break;
+      case 'urls':
+        for (const entry of value.split(/[\s,]+/).filter(Boolean)) {
+          if (isHttpUrl(entry)) refs.push(entry);
+          else invalid(entry);
+        }
+        break;
+    }
+  }
+
+  const scopeImpact = pickValue(SCOPE_IMPACTS, enums.scopeImpact);
+  const trailers: CommitTrailers = {
+    blogIntent: pickValue(BLOG_INTENTS, enums.blogIntent) ?? 'normal',
+    ...text,
+    changeNature,
+    ...(scopeImpact && { scopeImpact }),
+    ...lists,
+    refs,
+    confidentiality: unreadableConfidentiality
+      ? 'skip'
+      : pickValue(CONFIDENTIALITY_LEVELS, enums.confidentiality) ?? 'public',
+  };
+
+  return {
+    description: lines.slice(0, start).join('\n').trim(),
+    trailers,
+    issues: issues.sort((a, b) => a.line - b.line),
+  };
+}
+
+export function parseCommit(commit: DevlogCommit): ParsedCommit {
+  return { ...commit, ...parseTrailers(commit.body, commit.bodyLine) };
+}
+
+export function hasErrors(issues: TrailerIssue[]): boolean {
+  return issues.some(issue => issue.severity === 'error');
+}
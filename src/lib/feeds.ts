@@ -0,0 +1,148 @@
+/**
+ * Feed builders (RSS, Atom, JSON Feed)
+ * All three formats share one item list derived from getPosts()
+ */
+
+import rss from '@astrojs/rss';
+import { getPosts, type BlogPost } from './getPosts';
+import { getProject } from './projects';
+import { SITE, FEED_FILES } from './constants';
+
+export interface FeedItem {
+  id: string;
+  title: string;
+  link: string;
+  description?: string;
+  pubDate: Date;
+  categories: string[];
+  content: string;
+}
+
+export interface Feed {
+  title: string;
+  description: string;
+  /** Site-relative path of the page the feed describes */
+  homePath: string;
+  /** Site-relative path prefix the feed files live under */
+  basePath: string;
+  items: FeedItem[];
+}
+
+function toFeedItem(post: BlogPost): FeedItem {
+  const { title, description, date, languages, patterns, architectures } = post.data;
+
+  return {
+    id: post.id,
+    title,
+    link: `/blog/${post.id}/`,
+    description,
+    pubDate: date,
+    categories: [...new Set([...languages, ...patterns, ...architectures])],
+    content: post.rendered?.html ?? '',
+  };
+}
+
+/**
+ * Collect feed metadata and items, scoped to a project when projectId is given
+ */
+export async function getFeed(projectId?: string): Promise<Feed> {
+  const { posts } = await getPosts(projectId);
+  const project = projectId ? await getProject(projectId) : undefined;
+
+  return {
+    title: project ? `${project.name}${SITE.titleSuffix}` : SITE.title,
+    description: project?.description ?? SITE.description,
+    homePath: project ? `/projects/${project.id}/` : '/blog/',
+    basePath: project ? `/projects/${project.id}/` : '/',
+    items: posts.map(toFeedItem),
+  };
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+export function rssResponse(feed: Feed, site: URL): Promise<Response> {
+  return rss({
+    title: feed.title,
+    description: feed.description,
+    site: new URL(feed.homePath, site).href,
+    items: feed.items.map(item => ({
+      title: item.title,
+      link: new URL(item.link, site).href,
+      description: item.description,
+      pubDate: item.pubDate,
+      categories: item.categories,
+      content: item.content,
+    })),
+  });
+}
+
+export function atomResponse(feed: Feed, site: URL): Response {
+  const selfUrl = new URL(`${feed.basePath}${FEED_FILES.atom}`, site).href;
+  const homeUrl = new URL(feed.homePath, site).href;
+  const updated = feed.items[0]?.pubDate ?? new Date(0);
+
+  const entries = feed.items.map(item => {
+    const url = new URL(item.link, site).href;
+    return [
+      '  <entry>',
+      `    <id>${escapeXml(url)}</id>`,
+      `    <title>${escapeXml(item.title)}</title>`,
+      `    <link href="${escapeXml(url)}" />`,
+      `    <published>${item.pubDate.toISOString()}</published>`,
+      `    <updated>${item.pubDate.toISOString()}</updated>`,
+      item.description ? `    <summary>${escapeXml(item.description)}</summary>` : '',
+      ...item.categories.map(term => `    <category term="${escapeXml(term)}" />`),
+      `    <content type="html">${escapeXml(item.content)}</content>`,
+      '  </entry>',
+    ].filter(Boolean).join('\n');
+  });
+
+  const body = [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <id>${escapeXml(homeUrl)}</id>`,
+    `  <title>${escapeXml(feed.title)}</title>`,
+    `  <subtitle>${escapeXml(feed.description)}</subtitle>`,
+    `  <link href="${escapeXml(homeUrl)}" />`,
+    `  <link rel="self" href="${escapeXml(selfUrl)}" />`,
+    `  <updated>${updated.toISOString()}</updated>`,
+    `  <author><name>${escapeXml(SITE.author)}</name></author>`,
+    ...entries,
+    '</feed>',
+  ].join('\n');
+
+  return new Response(body, {
+    headers: { 'Content-Type': 'application/atom+xml; charset=utf-8' },
+  });
+}
+
+export function jsonFeedResponse(feed: Feed, site: URL): Response {
+  const body = {
+    version: 'https://jsonfeed.org/version/1.1',
+    title: feed.title,
+    description: feed.description,
+    home_page_url: new URL(feed.homePath, site).href,
+    feed_url: new URL(`${feed.basePath}${FEED_FILES.json}`, site).href,
+    authors: [{ name: SITE.author }],
+    items: feed.items.map(item => ({
+      id: new URL(item.link, site).href,
+      url: new URL(item.link, site).href,
+      title: item.title,
+      summary: item.description,
+      content_html: item.content,
+      date_published: item.pubDate.toISOString(),
+      tags: item.categories,
+    })),
+  };
+
+  return new Response(JSON.stringify(body, null, 2), {
+    headers: { 'Content-Type': 'application/feed+json; charset=utf-8' },
+  });
+}
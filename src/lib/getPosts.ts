@@ -3,6 +3,9 @@ import type { CollectionEntry } from 'astro:content';
 import { addWeekInfo, type PostWithWeek } from './weekGrouping';
 import { POSTS_PER_PAGE, CONTAINER_IDS } from './constants';
 import { detectContentIndicators, type ContentIndicators } from './contentIndicators';
+import { computePostStats, type PostStats } from './postStats';
+import { isPublished } from './publishing';
+import { DEFAULT_LOCALE, type Locale } from './i18n/locales';
 
 export type BlogPost = CollectionEntry<'blog'>;
 
@@ -15,32 +18,46 @@ export interface PostsResult {
   posts: BlogPost[];
   postsWithWeek: PostWithWeek<BlogPost>[];
   postsWithIndicators: Map<string, ContentIndicators>;
+  postsWithStats: Map<string, PostStats>;
   totalPages: number;
   containerId: string;
 }
 
-export async function getPosts(projectId?: string): Promise<PostsResult> {
+/**
+ * Published posts in one language (the default locale unless asked otherwise)
+ */
+export async function getPosts(projectId?: string, lang: Locale = DEFAULT_LOCALE): Promise<PostsResult> {
   let posts = (await getCollection('blog'))
-    .filter(post => !post.data.draft)
+    .filter(post => post.data.lang === lang && isPublished(post))
     .sort((a, b) => b.data.date.valueOf() - a.data.date.valueOf());
 
   if (projectId) {
-    posts = posts.filter(post => post.data.project === projectId);
+    posts = posts.filter(post => post.data.project?.id === projectId);
   }
 
-  const postsWithWeek = addWeekInfo(posts);
+  return buildPostsResult(posts, lang);
+}
+
+/**
+ * Derive week grouping, pagination and indicators for an already filtered, sorted list
+ */
+export function buildPostsResult(posts: BlogPost[], locale: Locale = DEFAULT_LOCALE): PostsResult {
+  const postsWithWeek = addWeekInfo(posts, locale);
   const totalPages = Math.ceil(posts.length / POSTS_PER_PAGE);
   const containerId = CONTAINER_IDS.posts;
 
   const postsWithIndicators = new Map<string, ContentIndicators>();
+  const postsWithStats = new Map<string, PostStats>();
   for (const post of posts) {
     postsWithIndicators.set(post.id, detectContentIndicators(post.body));
+    postsWithStats.set(post.id, computePostStats(post.body));
   }
 
   return {
     posts,
     postsWithWeek,
     postsWithIndicators,
+    postsWithStats,
     totalPages,
     containerId,
   };
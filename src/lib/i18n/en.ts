@@ -0,0 +1,151 @@
+/**
+ * English UI strings (source catalog - every other locale must cover these keys)
+ * `{name}` placeholders are filled by t(); plural messages pick a form from `count`
+ */
+
+export const en = {
+  'nav.home': 'Home',
+  'nav.blog': 'Blog',
+  'nav.archive': 'Archive',
+  'nav.projects': 'Projects',
+
+  'blog.title': 'All Posts',
+  'blog.empty': 'No posts yet.',
+  'blog.description': 'Every weekly devlog post across all projects, newest first.',
+
+  'post.back': 'Back',
+  'post.next': 'Next',
+  'post.previous': 'Previous',
+  'post.draft': 'DRAFT — not published',
+  'post.scheduled': 'Scheduled for {date}',
+  'post.translations': 'Also available in',
+
+  'stats.words': { one: '{count} word', other: '{count} words' },
+  'stats.readingTime': '{count} min read',
+  'stats.codeBlocks': { one: '{count} code block', other: '{count} code blocks' },
+  'stats.diagrams': { one: '{count} diagram', other: '{count} diagrams' },
+  'stats.sections': { one: '{count} section', other: '{count} sections' },
+
+  'meta.languages': 'Languages:',
+  'meta.patterns': 'Patterns:',
+  'meta.architectures': 'Architecture:',
+  'meta.tags': 'Tags:',
+
+  'indicators.label': 'What this post contains',
+  'indicators.images': { one: '{count} image', other: '{count} images' },
+  'indicators.diagrams': { one: '{count} diagram', other: '{count} diagrams' },
+  'indicators.code': { one: '{count} code block', other: '{count} code blocks' },
+  'indicators.tables': { one: '{count} table', other: '{count} tables' },
+  'indicators.math': { one: '{count} formula', other: '{count} formulas' },
+  'indicators.callouts': { one: '{count} callout', other: '{count} callouts' },
+  'indicators.links': { one: '{count} link', other: '{count} links' },
+  'indicators.components': { one: '{count} component', other: '{count} components' },
+  'indicators.languages': 'Code in {languages}',
+  'indicators.filter.images': 'Images',
+  'indicators.filter.diagrams': 'Diagrams',
+  'indicators.filter.code': 'Code',
+  'indicators.filter.tables': 'Tables',
+  'indicators.filter.math': 'Math',
+  'indicators.filter.callouts': 'Callouts',
+  'indicators.filter.links': 'Links',
+  'indicators.filter.components': 'Components',
+
+  'search.loadError': 'Search index could not be loaded.',
+  'search.empty': 'No matching posts.',
+  'search.results': { one: '{count} result', other: '{count} results' },
+
+  'toc.label': 'Table of contents',
+  'toc.summary': 'On this page',
+  'toc.copyLink': 'Copy link to "{heading}"',
+
+  'carousel.more': '...more',
+  'carousel.collapse': 'Collapse',
+  'carousel.previous': 'Previous slide',
+  'carousel.next': 'Next slide',
+  'carousel.goTo': 'Go to {title}',
+
+  'related.heading': 'Related posts',
+  'related.shares': 'shares: {terms}',
+
+  'series.label': '{name} series',
+  'series.progress': 'Part {part} of {total}',
+
+  'heatmap.noPosts': 'No posts',
+  'heatmap.emptyWeek': '{label}: no posts',
+
+  'archive.title': 'Archive',
+  'archive.heading': 'Every week, on the record',
+  'archive.description': 'Every devlog post by year, month and week, with a weekly activity heatmap.',
+  'archive.across': '{posts} across {weeks}',
+  'archive.missedWeeks': { one: '{count} missed week', other: '{count} missed weeks' },
+  'archive.longestStreak': 'longest streak {weeks}',
+  'archive.currentStreak': 'current streak {weeks}',
+
+  'cadence.currentStreak': 'Current streak',
+  'cadence.longestStreak': 'Longest streak',
+  'cadence.averageGap': 'Average gap',
+  'cadence.days': '{days} days',
+  'cadence.missed': 'Missed',
+  'cadence.missedOf': '{missed} of {total}',
+  'cadence.missedWeeks': 'Missed weeks:',
+  'cadence.missedWeek': 'missed',
+  'cadence.inProgress': 'in progress',
+  'cadence.weeks': { one: '{count} week', other: '{count} weeks' },
+  'cadence.summary': '{active} of {total} weeks with a post',
+
+  'week.of': 'Week of',
+  'week.posts': { one: '{count} post', other: '{count} posts' },
+  'week.projects': { one: '{count} project', other: '{count} projects' },
+  'week.previous': 'Previous week',
+  'week.next': 'Next week',
+  'week.readPost': 'Read the full post',
+  'week.noGlance': 'No summary for this post.',
+  'week.combined': 'Across all posts this week',
+  'week.digest': 'See the whole week',
+  'week.description': 'What happened across every project in the week of {range}: {titles}.',
+
+  'pagination.label': 'Pagination',
+  'pagination.previous': 'Previous page',
+  'pagination.next': 'Next page',
+
+  'toolbar.lengthLabel': 'Filter by length',
+  'toolbar.anyLength': 'Any length',
+  'toolbar.sort': 'Sort',
+  'toolbar.newest': 'Newest',
+  'toolbar.oldest': 'Oldest',
+  'toolbar.shortest': 'Shortest',
+  'toolbar.longest': 'Longest',
+  'toolbar.empty': 'No posts match these filters.',
+  'toolbar.containsLabel': 'Filter by content',
+  'toolbar.anyContent': 'Any content',
+  'toolbar.languageLabel': 'Filter by code language',
+  'toolbar.anyLanguage': 'Any language',
+
+  'length.quick': 'Quick reads',
+  'length.quick.hint': 'under 5 min',
+  'length.medium': 'Medium',
+  'length.medium.hint': '5–10 min',
+  'length.long': 'Deep dives',
+  'length.long.hint': '10+ min',
+
+  'change.label': 'Kind of change',
+  'change.scopeLabel': 'Scope of impact',
+  'change.any': 'Any change',
+  'change.anyScope': 'Any scope',
+  'change.nature.architecture': 'Architecture',
+  'change.nature.new-component': 'New component',
+  'change.nature.component-modify': 'Component change',
+  'change.nature.component-remove': 'Component removal',
+  'change.nature.pattern-adoption': 'Pattern adoption',
+  'change.nature.critical-fix': 'Critical fix',
+  'change.nature.performance': 'Performance',
+  'change.nature.breaking-change': 'Breaking change',
+  'change.nature.security': 'Security',
+  'change.nature.cleanup': 'Cleanup',
+  'change.nature.dx': 'Developer experience',
+  'change.nature.migration': 'Migration',
+  'change.scope.local': 'Local',
+  'change.scope.module': 'Module',
+  'change.scope.cross-cutting': 'Cross-cutting',
+  'change.scope.foundational': 'Foundational',
+} as const;
@@ -0,0 +1,56 @@
+/**
+ * i18n
+ * Message catalogs per locale and a small t() with placeholders and plurals
+ */
+
+import { en } from './en';
+import { tr } from './tr';
+import { LOCALES, DEFAULT_LOCALE, type Locale } from './locales';
+
+export * from './locales';
+
+export type MessageKey = keyof typeof en;
+
+type Message = string | { one: string; other: string };
+
+export type Messages = Record<MessageKey, Message>;
+
+export type MessageParams = Record<string, string | number>;
+
+const catalogs: Record<Locale, Messages> = { en, tr };
+
+const pluralRules = new Map<Locale, Intl.PluralRules>();
+
+function selectForm(message: Message, locale: Locale, count: unknown): string {
+  if (typeof message === 'string') return message;
+  if (typeof count !== 'number') return message.other;
+
+  let rules = pluralRules.get(locale);
+  if (!rules) {
+    rules = new Intl.PluralRules(LOCALES[locale].dateLocale);
+    pluralRules.set(locale, rules);
+  }
+  return rules.select(count) === 'one' ? message.one : message.other;
+}
+
+/**
+ * Translate a key, falling back to the default locale's message
+ * Numeric params are formatted for the locale ("1,234" / "1.234")
+ */
+export function t(locale: Locale, key: MessageKey, params: MessageParams = {}): string {
+  const message = catalogs[locale][key] ?? catalogs[DEFAULT_LOCALE][key];
+  const template = selectForm(message, locale, params.count);
+
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = params[name];
+    if (value === undefined) return match;
+    return typeof value === 'number' ? value.toLocaleString(LOCALES[locale].dateLocale) : value;
+  });
+}
+
+/**
+ * Bind t() to a locale for use in a component
+ */
+export function useTranslations(locale: Locale) {
+  return (key: MessageKey, params?: MessageParams) => t(locale, key, params);
+}
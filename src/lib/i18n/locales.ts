@@ -0,0 +1,33 @@
+/**
+ * Supported locales
+ * Kept free of message catalogs so client code (date formatting) can import it cheaply
+ */
+
+export const LOCALES = {
+  en: { label: 'English', dateLocale: 'en-US' },
+  tr: { label: 'Türkçe', dateLocale: 'tr-TR' },
+} as const;
+
+export type Locale = keyof typeof LOCALES;
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+export const LOCALE_CODES = Object.keys(LOCALES) as [Locale, ...Locale[]];
+
+export function isLocale(value: string | undefined): value is Locale {
+  return !!value && value in LOCALES;
+}
+
+/**
+ * Normalize Astro.currentLocale (or any string) to a supported locale
+ */
+export function resolveLocale(value: string | undefined): Locale {
+  return isLocale(value) ? value : DEFAULT_LOCALE;
+}
+
+/**
+ * Prefix a site path for a locale: the default locale lives at the root, others under /<code>
+ */
+export function localizePath(path: string, locale: Locale): string {
+  return locale === DEFAULT_LOCALE ? path : `/${locale}${path}`;
+}
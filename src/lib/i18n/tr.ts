@@ -0,0 +1,152 @@
+/**
+ * Turkish UI strings
+ */
+
+import type { Messages } from './index';
+
+export const tr: Messages = {
+  'nav.home': 'Ana Sayfa',
+  'nav.blog': 'Blog',
+  'nav.archive': 'Arşiv',
+  'nav.projects': 'Projeler',
+
+  'blog.title': 'Tüm Yazılar',
+  'blog.empty': 'Henüz yazı yok.',
+  'blog.description': 'Tüm projelerin haftalık devlog yazıları, en yenisi önce.',
+
+  'post.back': 'Geri',
+  'post.next': 'Sonraki',
+  'post.previous': 'Önceki',
+  'post.draft': 'TASLAK — yayımlanmadı',
+  'post.scheduled': '{date} tarihinde yayımlanacak',
+  'post.translations': 'Diğer dillerde',
+
+  'stats.words': '{count} kelime',
+  'stats.readingTime': '{count} dk okuma',
+  'stats.codeBlocks': '{count} kod bloğu',
+  'stats.diagrams': '{count} diyagram',
+  'stats.sections': '{count} bölüm',
+
+  'meta.languages': 'Diller:',
+  'meta.patterns': 'Desenler:',
+  'meta.architectures': 'Mimari:',
+  'meta.tags': 'Etiketler:',
+
+  'indicators.label': 'Bu yazının içeriği',
+  'indicators.images': '{count} görsel',
+  'indicators.diagrams': '{count} diyagram',
+  'indicators.code': '{count} kod bloğu',
+  'indicators.tables': '{count} tablo',
+  'indicators.math': '{count} formül',
+  'indicators.callouts': '{count} not kutusu',
+  'indicators.links': '{count} bağlantı',
+  'indicators.components': '{count} bileşen',
+  'indicators.languages': 'Kod dilleri: {languages}',
+  'indicators.filter.images': 'Görseller',
+  'indicators.filter.diagrams': 'Diyagramlar',
+  'indicators.filter.code': 'Kod',
+  'indicators.filter.tables': 'Tablolar',
+  'indicators.filter.math': 'Matematik',
+  'indicators.filter.callouts': 'Not kutuları',
+  'indicators.filter.links': 'Bağlantılar',
+  'indicators.filter.components': 'Bileşenler',
+
+  'search.loadError': 'Arama dizini yüklenemedi.',
+  'search.empty': 'Eşleşen yazı yok.',
+  'search.results': '{count} sonuç',
+
+  'toc.label': 'İçindekiler',
+  'toc.summary': 'Bu sayfada',
+  'toc.copyLink': '"{heading}" bağlantısını kopyala',
+
+  'carousel.more': '...devamı',
+  'carousel.collapse': 'Daralt',
+  'carousel.previous': 'Önceki slayt',
+  'carousel.next': 'Sonraki slayt',
+  'carousel.goTo': '{title} slaytına git',
+
+  'related.heading': 'İlgili yazılar',
+  'related.shares': 'ortak: {terms}',
+
+  'series.label': '{name} serisi',
+  'series.progress': 'Bölüm {part}/{total}',
+
+  'heatmap.noPosts': 'Yazı yok',
+  'heatmap.emptyWeek': '{label}: yazı yok',
+
+  'archive.title': 'Arşiv',
+  'archive.heading': 'Her hafta, kayıt altında',
+  'archive.description': 'Yıla, aya ve haftaya göre tüm devlog yazıları ve haftalık etkinlik ısı haritası.',
+  'archive.across': '{weeks} boyunca {posts}',
+  'archive.missedWeeks': '{count} kaçırılan hafta',
+  'archive.longestStreak': 'en uzun seri {weeks}',
+  'archive.currentStreak': 'güncel seri {weeks}',
+
+  'cadence.currentStreak': 'Güncel seri',
+  'cadence.longestStreak': 'En uzun seri',
+  'cadence.averageGap': 'Ortalama aralık',
+  'cadence.days': '{days} gün',
+  'cadence.missed': 'Kaçırılan',
+  'cadence.missedOf': '{total} haftanın {missed}',
+  'cadence.missedWeeks': 'Kaçırılan haftalar:',
+  'cadence.missedWeek': 'kaçırıldı',
+  'cadence.inProgress': 'devam ediyor',
+  'cadence.weeks': '{count} hafta',
+  'cadence.summary': '{total} haftanın {active} haftasında yazı var',
+
+  'week.of': 'Hafta',
+  'week.posts': { one: '{count} yazı', other: '{count} yazı' },
+  'week.projects': { one: '{count} proje', other: '{count} proje' },
+  'week.previous': 'Önceki hafta',
+  'week.next': 'Sonraki hafta',
+  'week.readPost': 'Yazının tamamını oku',
+  'week.noGlance': 'Bu yazı için özet yok.',
+  'week.combined': 'Bu haftanın tüm yazılarında',
+  'week.digest': 'Haftanın tamamına bak',
+  'week.description': '{range} haftasında tüm projelerde olanlar: {titles}.',
+
+  'pagination.label': 'Sayfalar',
+  'pagination.previous': 'Önceki sayfa',
+  'pagination.next': 'Sonraki sayfa',
+
+  'toolbar.lengthLabel': 'Uzunluğa göre filtrele',
+  'toolbar.anyLength': 'Tüm uzunluklar',
+  'toolbar.sort': 'Sırala',
+  'toolbar.newest': 'En yeni',
+  'toolbar.oldest': 'En eski',
+  'toolbar.shortest': 'En kısa',
+  'toolbar.longest': 'En uzun',
+  'toolbar.empty': 'Bu filtrelere uyan yazı yok.',
+  'toolbar.containsLabel': 'İçeriğe göre filtrele',
+  'toolbar.anyContent': 'Tüm içerikler',
+  'toolbar.languageLabel': 'Kod diline göre filtrele',
+  'toolbar.anyLanguage': 'Tüm diller',
+
+  'length.quick': 'Kısa okumalar',
+  'length.quick.hint': '5 dk altı',
+  'length.medium': 'Orta',
+  'length.medium.hint': '5–10 dk',
+  'length.long': 'Derinlemesine',
+  'length.long.hint': '10+ dk',
+
+  'change.label': 'Değişiklik türü',
+  'change.scopeLabel': 'Etki alanı',
+  'change.any': 'Tüm değişiklikler',
+  'change.anyScope': 'Tüm kapsamlar',
+  'change.nature.architecture': 'Mimari',
+  'change.nature.new-component': 'Yeni bileşen',
+  'change.nature.component-modify': 'Bileşen değişikliği',
+  'change.nature.component-remove': 'Bileşen kaldırma',
+  'change.nature.pattern-adoption': 'Desen benimseme',
+  'change.nature.critical-fix': 'Kritik düzeltme',
+  'change.nature.performance': 'Performans',
+  'change.nature.breaking-change': 'Uyumsuz değişiklik',
+  'change.nature.security': 'Güvenlik',
+  'change.nature.cleanup': 'Temizlik',
+  'change.nature.dx': 'Geliştirici deneyimi',
+  'change.nature.migration': 'Taşıma',
+  'change.scope.local': 'Yerel',
+  'change.scope.module': 'Modül',
+  'change.scope.cross-cutting': 'Kesişen',
+  'change.scope.foundational': 'Temel',
+};
@@ -0,0 +1,131 @@
+/**
+ * Open Graph images
+ * 1200×630 social cards for posts and project pages, drawn as SVG and rasterized
+ * with sharp at build time. Colors come from the default palette's dark scheme.
+ */
+
+import sharp from 'sharp';
+import { COLORS, type PaletteColorKey } from './theme';
+import { DEFAULT_PALETTE_ID, getPalette } from './palettes';
+import { SITE, OG_IMAGE_SIZE } from './constants';
+import { formatDateLong } from './dateUtils';
+import type { BlogPost } from './getPosts';
+import type { Project } from './projects';
+
+export interface OgCard {
+  title: string;
+  /** Small line above the title: project name, "Project", ... */
+  eyebrow?: string;
+  /** Project icon glyph */
+  icon?: string;
+  colorKey?: PaletteColorKey;
+  /** Bottom-left line, usually the formatted date */
+  meta?: string;
+  languages?: string[];
+}
+
+const PADDING = 80;
+const TITLE_SIZE = 64;
+const TITLE_LINE_HEIGHT = 76;
+const MAX_TITLE_LINES = 3;
+// Average glyph width relative to font size, good enough to wrap without measuring text
+const CHAR_WIDTH = 0.55;
+const BOLD_CHAR_WIDTH = 0.62;
+const MAX_LANGUAGES = 3;
+const FONT = "Inter, 'DejaVu Sans', sans-serif";
+
+/**
+ * Site-relative path of the card for a page ("/blog/foo" → "/og/blog/foo.png")
+ */
+export function getOgImagePath(pagePath: string): string {
+  return `/og${pagePath.replace(/\/$/, '')}.png`;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Greedy word wrap; the last line gets an ellipsis when the title doesn't fit
+ */
+export function wrapTitle(title: string, maxChars: number, maxLines: number = MAX_TITLE_LINES): string[] {
+  const lines: string[] = [];
+  let current = '';
+
+  for (const word of title.split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (candidate.length <= maxChars || !current) {
+      current = candidate;
+    } else {
+      lines.push(current);
+      current = word;
+    }
+  }
+  if (current) lines.push(current);
+
+  if (lines.length <= maxLines) return lines;
+  const kept = lines.slice(0, maxLines);
+  kept[maxLines - 1] = `${kept[maxLines - 1].slice(0, maxChars - 1).trimEnd()}…`;
+  return kept;
+}
+
+export function buildOgSvg(card: OgCard): string {
+  const { width, height } = OG_IMAGE_SIZE;
+  const palette = getPalette(DEFAULT_PALETTE_ID)!.colors.dark;
+  const accent = card.colorKey ? palette[card.colorKey] : palette.accent;
+  const maxChars = Math.floor((width - PADDING * 2) / (TITLE_SIZE * BOLD_CHAR_WIDTH));
+  const lines = wrapTitle(card.title, maxChars);
+  const titleTop = height / 2 - ((lines.length - 1) * TITLE_LINE_HEIGHT) / 2;
+
+  let chipX = PADDING;
+  const chips = (card.languages ?? []).slice(0, MAX_LANGUAGES).map(language => {
+    const chipWidth = Math.round(language.length * 26 * CHAR_WIDTH + 36);
+    const chip = `
+    <rect x="${chipX}" y="${height - PADDING - 44}" width="${chipWidth}" height="44" rx="8" fill="${accent}" fill-opacity="0.12" stroke="${accent}" stroke-opacity="0.5"/>
+    <text x="${chipX + chipWidth / 2}" y="${height - PADDING - 14}" font-size="26" fill="${accent}" text-anchor="middle">${escapeXml(language)}</text>`;
+    chipX += chipWidth + 14;
+    return chip;
+  });
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+  <rect width="${width}" height="${height}" fill="${COLORS.bgDark}"/>
+  <rect width="16" height="${height}" fill="${accent}"/>
+  <g font-family="${FONT}">
+    ${card.icon ? `<text x="${PADDING}" y="${PADDING + 40}" font-size="44" fill="${accent}">${escapeXml(card.icon)}</text>` : ''}
+    ${card.eyebrow ? `<text x="${PADDING + (card.icon ? 64 : 0)}" y="${PADDING + 36}" font-size="32" font-weight="600" fill="${accent}">${escapeXml(card.eyebrow)}</text>` : ''}
+    ${lines.map((line, i) => `<text x="${PADDING}" y="${titleTop + i * TITLE_LINE_HEIGHT}" font-size="${TITLE_SIZE}" font-weight="700" fill="${COLORS.textDark}" dominant-baseline="middle">${escapeXml(line)}</text>`).join('\n    ')}
+    ${chips.join('')}
+    ${card.meta ? `<text x="${width - PADDING}" y="${height - PADDING - 14}" font-size="26" fill="${COLORS.muted}" text-anchor="end">${escapeXml(card.meta)}</text>` : ''}
+    <text x="${width - PADDING}" y="${PADDING + 36}" font-size="26" fill="${COLORS.muted}" text-anchor="end">${escapeXml(SITE.title)}</text>
+  </g>
+</svg>`;
+}
+
+export async function renderOgImage(card: OgCard): Promise<Uint8Array<ArrayBuffer>> {
+  return new Uint8Array(await sharp(Buffer.from(buildOgSvg(card))).png().toBuffer());
+}
+
+export function getPostOgCard(post: BlogPost, project?: Project): OgCard {
+  return {
+    title: post.data.title,
+    eyebrow: project?.name,
+    icon: project?.icon,
+    colorKey: project?.colorKey,
+    meta: formatDateLong(post.data.date, post.data.lang),
+    languages: post.data.languages,
+  };
+}
+
+export function getProjectOgCard(project: Project, postCount: number): OgCard {
+  return {
+    title: project.description,
+    eyebrow: project.name,
+    icon: project.icon,
+    colorKey: project.colorKey,
+    meta: `${postCount} post${postCount !== 1 ? 's' : ''}`,
+  };
+}
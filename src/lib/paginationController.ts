@@ -24,20 +24,33 @@ function setPageInUrl(page: number, replace = false) {
   }
 }
 
-export function initPagination(containerId: string) {
+export interface PaginationController {
+  /** Re-read the filtered/sorted post list and jump back to page 1 */
+  refresh(): void;
+}
+
+export function initPagination(containerId: string): PaginationController | undefined {
   const config = (window as any).__paginationConfig?.[containerId] as PaginationConfig | undefined;
   if (!config) return;
 
-  const { totalPages, postsPerPage } = config;
+  const { postsPerPage } = config;
 
   const container = document.getElementById(containerId);
-  const postItems = container?.querySelectorAll('.post-item');
   const weekHeaders = container?.querySelectorAll('.week-header');
   const pagination = document.getElementById(`pagination-${containerId}`);
   const prevBtn = document.getElementById(`prev-btn-${containerId}`) as HTMLButtonElement;
   const nextBtn = document.getElementById(`next-btn-${containerId}`) as HTMLButtonElement;
   const pageIndicator = document.getElementById(`page-indicator-${containerId}`) as HTMLInputElement;
 
+  // Posts hidden by a filter carry data-filtered-out and never count towards pages
+  function getPostItems(): HTMLElement[] {
+    return Array.from(container?.querySelectorAll<HTMLElement>('.post-item') ?? [])
+      .filter(post => !post.hasAttribute('data-filtered-out'));
+  }
+
+  let postItems = getPostItems();
+  let totalPages = Math.max(1, Math.ceil(postItems.length / postsPerPage));
+
   // Initialize from URL
   let currentPage = Math.min(getPageFromUrl(), totalPages);
 
@@ -46,63 +59,59 @@ export function initPagination(containerId: string) {
   }
 
   function updatePagination() {
-    if (!postItems) return;
+    container?.querySelectorAll('.post-item[data-filtered-out]').forEach(post => post.classList.remove('visible'));
 
     // If only one page or no pagination UI, show all posts
     if (totalPages <= 1 || !pageIndicator) {
       postItems.forEach(post => post.classList.add('visible'));
-      weekHeaders?.forEach(header => header.classList.add('visible'));
+      updateWeekHeaders(postItems);
+      if (pagination) pagination.hidden = true;
       return;
     }
 
+    if (pagination) pagination.hidden = false;
+
     const startIndex = (currentPage - 1) * postsPerPage;
     const endIndex = startIndex + postsPerPage;
 
-    const visibleWeeks = new Set<string>();
-
     postItems.forEach((post, index) => {
-      if (index >= startIndex && index < endIndex) {
-        post.classList.add('visible');
-        const weekKey = post.getAttribute('data-week');
-        if (weekKey) visibleWeeks.add(weekKey);
-      } else {
-        post.classList.remove('visible');
-      }
+      post.classList.toggle('visible', index >= startIndex && index < endIndex);
     });
 
+    updateWeekHeaders(postItems.slice(startIndex, endIndex));
+
+    if (prevBtn) prevBtn.disabled = currentPage === 1;
+    if (nextBtn) nextBtn.disabled = currentPage === totalPages;
+
+    pageIndicator.value = getIndicatorText();
+    pageIndicator.readOnly = true;
+  }
+
+  // A header shows above the first visible post of each week on the page,
+  // unless the list is sorted by something other than date
+  function updateWeekHeaders(visiblePosts: HTMLElement[]) {
+    const grouped = container?.dataset.grouping !== 'none';
+    const shownWeeks = new Set<string>();
+    let previousWeek: string | null = null;
+
+    for (const post of visiblePosts) {
+      const weekKey = post.getAttribute('data-week');
+      if (weekKey && weekKey !== previousWeek) shownWeeks.add(weekKey);
+      previousWeek = weekKey;
+    }
+
     let firstVisibleHeader = true;
     weekHeaders?.forEach(header => {
       header.classList.remove('first-visible');
       const weekKey = header.getAttribute('data-week');
-      const headerIndex = parseInt(header.getAttribute('data-index') || '0');
-
-      let shouldShow = false;
-      if (weekKey && visibleWeeks.has(weekKey) && headerIndex >= startIndex && headerIndex < endIndex) {
-        shouldShow = true;
-      } else if (weekKey && visibleWeeks.has(weekKey)) {
-        const firstPostOfWeek = container?.querySelector(`.post-item[data-week="${weekKey}"].visible`);
-        const firstPostIndex = firstPostOfWeek ? parseInt(firstPostOfWeek.getAttribute('data-index') || '0') : -1;
-        if (firstPostIndex === startIndex || (headerIndex < startIndex && firstPostIndex >= startIndex)) {
-          shouldShow = true;
-        }
-      }
+      const shouldShow = grouped && !!weekKey && shownWeeks.has(weekKey);
 
-      if (shouldShow) {
-        header.classList.add('visible');
-        if (firstVisibleHeader) {
-          header.classList.add('first-visible');
-          firstVisibleHeader = false;
-        }
-      } else {
-        header.classList.remove('visible');
+      header.classList.toggle('visible', shouldShow);
+      if (shouldShow && firstVisibleHeader) {
+        header.classList.add('first-visible');
+        firstVisibleHeader = false;
       }
     });
-
-    if (prevBtn) prevBtn.disabled = currentPage === 1;
-    if (nextBtn) nextBtn.disabled = currentPage === totalPages;
-
-    pageIndicator.value = getIndicatorText();
-    pageIndicator.readOnly = true;
   }
 
   function goToPage(page: number, updateUrl = true) {
@@ -208,7 +217,7 @@ export function initPagination(containerId: string) {
     }
   });
 
-  if (postItems && postItems.length > 0) {
+  if (postItems.length > 0) {
     // Set initial state in history (replace, don't push)
     if (currentPage > 1) {
       setPageInUrl(currentPage, true);
@@ -216,4 +225,15 @@ export function initPagination(containerId: string) {
     updatePagination();
     updateFloatVisibility();
   }
+
+  return {
+    refresh() {
+      postItems = getPostItems();
+      totalPages = Math.max(1, Math.ceil(postItems.length / postsPerPage));
+      currentPage = 1;
+      setPageInUrl(currentPage, true);
+      updatePagination();
+      requestAnimationFrame(updateFloatVisibility);
+    },
+  };
 }
@@ -146,6 +146,9 @@ export const palettes: Palette[] = [
   },
 ];
 
+/** Palette shown before the visitor picks one (see PaletteSwitcher) */
+export const DEFAULT_PALETTE_ID = 'lahmacun';
+
 export function getPalette(id: string): Palette | undefined {
   return palettes.find(p => p.id === id);
 }
@@ -0,0 +1,117 @@
+/**
+ * Client-side filtering and sorting for post lists
+ *
+ * Filter groups are declared in markup: a button with
+ * data-filter-group="length" data-filter-value="quick" keeps posts whose
+ * data-length attribute contains "quick" (space-separated lists allowed).
+ * The value "all" clears the group. State is mirrored in the query string.
+ */
+
+import type { PaginationController } from './paginationController';
+
+export type SortKey = 'newest' | 'oldest' | 'shortest' | 'longest';
+
+const ALL = 'all';
+
+function getWords(item: HTMLElement): number {
+  return parseInt(item.dataset.words || '0');
+}
+
+function getIndex(item: HTMLElement): number {
+  return parseInt(item.dataset.index || '0');
+}
+
+const SORTS: Record<SortKey, (a: HTMLElement, b: HTMLElement) => number> = {
+  newest: (a, b) => getIndex(a) - getIndex(b),
+  oldest: (a, b) => getIndex(b) - getIndex(a),
+  shortest: (a, b) => getWords(a) - getWords(b) || getIndex(a) - getIndex(b),
+  longest: (a, b) => getWords(b) - getWords(a) || getIndex(a) - getIndex(b),
+};
+
+function matchesAttribute(item: HTMLElement, group: string, value: string): boolean {
+  return (item.getAttribute(`data-${group}`) ?? '').split(' ').includes(value);
+}
+
+export function initPostFilters(containerId: string, pagination?: PaginationController): void {
+  const container = document.getElementById(containerId);
+  const toolbar = document.querySelector<HTMLElement>(`[data-posts-toolbar="${containerId}"]`);
+  if (!container || !toolbar) return;
+
+  const filterButtons = toolbar.querySelectorAll<HTMLButtonElement>('[data-filter-group]');
+  const sortSelect = toolbar.querySelector<HTMLSelectElement>('[data-sort]');
+  const emptyState = toolbar.querySelector<HTMLElement>('[data-filter-empty]');
+  const originalOrder = Array.from(container.children);
+
+  const groups = new Set(Array.from(filterButtons, btn => btn.dataset.filterGroup!));
+  const params = new URLSearchParams(window.location.search);
+  const active = new Map<string, string>();
+  for (const group of groups) {
+    active.set(group, params.get(group) || ALL);
+  }
+  let sort: SortKey = (params.get('sort') as SortKey) in SORTS ? params.get('sort') as SortKey : 'newest';
+
+  function syncUrl() {
+    const url = new URL(window.location.href);
+    for (const [group, value] of active) {
+      if (value === ALL) url.searchParams.delete(group);
+      else url.searchParams.set(group, value);
+    }
+    if (sort === 'newest') url.searchParams.delete('sort');
+    else url.searchParams.set('sort', sort);
+    history.replaceState(history.state, '', url.toString());
+  }
+
+  function apply() {
+    const items = Array.from(container!.querySelectorAll<HTMLElement>('.post-item'));
+    let shown = 0;
+
+    for (const item of items) {
+      const visible = [...active].every(([group, value]) => value === ALL || matchesAttribute(item, group, value));
+      item.toggleAttribute('data-filtered-out', !visible);
+      if (visible) shown++;
+    }
+
+    // Week headers only make sense in chronological order
+    if (sort === 'newest') {
+      container!.dataset.grouping = 'week';
+      container!.append(...originalOrder);
+    } else {
+      container!.dataset.grouping = 'none';
+      container!.append(...items.sort(SORTS[sort]));
+    }
+
+    filterButtons.forEach(btn => {
+      btn.setAttribute('aria-pressed', String(active.get(btn.dataset.filterGroup!) === btn.dataset.filterValue));
+    });
+    if (sortSelect) sortSelect.value = sort;
+    if (emptyState) emptyState.hidden = shown > 0;
+
+    pagination?.refresh();
+  }
+
+  filterButtons.forEach(btn => {
+    btn.addEventListener('click', () => {
+      const group = btn.dataset.filterGroup!;
+      const value = btn.dataset.filterValue!;
+      active.set(group, active.get(group) === value ? ALL : value);
+      syncUrl();
+      apply();
+    });
+  });
+
+  sortSelect?.addEventListener('change', () => {
+    sort = sortSelect.value as SortKey;
+    syncUrl();
+    apply();
+  });
+
+  // Only re-layout on load when the URL asked for a non-default view
+  const hasState = sort !== 'newest' || [...active.values()].some(value => value !== ALL);
+  if (hasState) {
+    apply();
+  } else {
+    filterButtons.forEach(btn => {
+      btn.setAttribute('aria-pressed', String(btn.dataset.filterValue === ALL));
+    });
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Post page routes
+ * Shared by /blog/[...slug] (default locale) and /[lang]/blog/[...slug], plus the
+ * locales that get a /blog listing
+ */
+
+import { getCollection } from 'astro:content';
+import type { BlogPost } from './getPosts';
+import { collectSeries, getSeriesPosition } from './series';
+import { getRelatedPosts } from './relatedPosts';
+import { computePostStats } from './postStats';
+import { getPublishState, hasPage, isPublished } from './publishing';
+import { getPostSlug, getTranslations } from './translations';
+import { LOCALE_CODES, DEFAULT_LOCALE, type Locale } from './i18n/locales';
+
+export async function getPostPaths(lang: Locale) {
+  const collection = await getCollection('blog');
+  const pagePosts = collection
+    .filter(post => post.data.lang === lang && hasPage(post))
+    .sort((a, b) => b.data.date.valueOf() - a.data.date.valueOf());
+  // Navigation, series and related posts only ever point at published posts
+  const allPosts = pagePosts.filter(isPublished);
+  const allSeries = collectSeries(allPosts);
+  const relatedPosts = getRelatedPosts(allPosts);
+  // Translations may be in any language, so look across the whole collection
+  const publishedPosts = collection.filter(isPublished);
+
+  return pagePosts.map((post: BlogPost) => {
+    // Preview-only pages (drafts, scheduled) get no prev/next
+    const isListed = isPublished(post);
+
+    // Global prev/next (all posts)
+    const globalIndex = allPosts.indexOf(post);
+
+    // Project-scoped prev/next (only if post belongs to a project)
+    const projectPosts = isListed && post.data.project
+      ? allPosts.filter(p => p.data.project?.id === post.data.project?.id)
+      : null;
+    const projectIndex = projectPosts?.indexOf(post) ?? -1;
+
+    return {
+      params: { slug: getPostSlug(post) },
+      props: {
+        post,
+        prevPost: isListed ? allPosts[globalIndex + 1] || null : null,
+        nextPost: isListed ? allPosts[globalIndex - 1] || null : null,
+        prevProjectPost: projectPosts?.[projectIndex + 1] || null,
+        nextProjectPost: projectPosts?.[projectIndex - 1] || null,
+        seriesPosition: getSeriesPosition(allSeries, post),
+        related: relatedPosts.get(post.id) ?? [],
+        stats: computePostStats(post.body),
+        publishState: getPublishState(post),
+        translations: getTranslations(post, publishedPosts),
+      },
+    };
+  });
+}
+
+/**
+ * Locales with a /blog listing: the default one always, others once they have a published post
+ * The listing routes and their hreflang alternates both come from here, so they always agree
+ */
+export async function getBlogIndexLocales(): Promise<Locale[]> {
+  const collection = await getCollection('blog');
+  return LOCALE_CODES.filter(locale =>
+    locale === DEFAULT_LOCALE || collection.some(post => post.data.lang === locale && isPublished(post))
+  );
+}
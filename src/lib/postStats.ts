@@ -0,0 +1,53 @@
+/**
+ * Length and structure stats for a post's raw markdown
+ */
+
+import { detectContentIndicators, stripCodeFences } from './contentIndicators';
+
+export interface PostStats {
+  wordCount: number;
+  /** Estimated reading time in whole minutes (at least 1) */
+  readingTime: number;
+  codeBlocks: number;
+  diagrams: number;
+  headings: number;
+}
+
+export const WORDS_PER_MINUTE = 230;
+
+/** Reading-time buckets used by the /blog length filter */
+export const LENGTH_BUCKETS = {
+  quick: { max: 5 },
+  medium: { max: 10 },
+  long: { max: Number.POSITIVE_INFINITY },
+} as const;
+
+export type LengthBucket = keyof typeof LENGTH_BUCKETS;
+
+export function getLengthBucket(readingTime: number): LengthBucket {
+  if (readingTime < LENGTH_BUCKETS.quick.max) return 'quick';
+  if (readingTime < LENGTH_BUCKETS.medium.max) return 'medium';
+  return 'long';
+}
+
+export function computePostStats(rawContent: string = ''): PostStats {
+  // Same fence parsing as the content indicators, so card counts always agree
+  const { counts } = detectContentIndicators(rawContent);
+  const withoutFences = stripCodeFences(rawContent);
+
+  // Count prose only: code and diagrams are skimmed, not read
+  const prose = withoutFences
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1');
+  const wordCount = prose.match(/[\p{L}\p{N}][\p{L}\p{N}'’_-]*/gu)?.length ?? 0;
+
+  const headings = withoutFences.match(/^#{2,6}\s+\S/gm)?.length ?? 0;
+
+  return {
+    wordCount,
+    readingTime: Math.max(1, Math.round(wordCount / WORDS_PER_MINUTE)),
+    codeBlocks: counts.code,
+    diagrams: counts.diagrams,
+    headings,
+  };
+}
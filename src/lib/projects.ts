@@ -1,55 +1,37 @@
-export type PaletteColorKey = 'red' | 'green' | 'yellow' | 'blue' | 'purple' | 'cyan' | 'orange';
+import { getCollection, type CollectionEntry } from 'astro:content';
+import type { BlogPost } from './getPosts';
+export type { PaletteColorKey } from './theme';
 
-export interface Project {
+export type ProjectStatus = CollectionEntry<'projects'>['data']['status'];
+
+export interface Project extends Omit<CollectionEntry<'projects'>['data'], 'order'> {
   id: string;
-  name: string;
-  colorKey: PaletteColorKey;
-  icon: string;
-  shortDescription: string;
-  description: string;
-  slideCount: number;
 }
 
-export const projects: Project[] = [
-  {
-    id: 'xtranodly',
-    name: 'xtranodly.ai',
-    colorKey: 'blue',
-    icon: '◈',
-    shortDescription: 'Rust node graph framework',
-    description: 'A Rust-native node graph framework — context nodes nest arbitrarily deep, open as floating panels or detached windows, and bridge nodes wire data across contexts without direct edges.',
-    slideCount: 4,
-  },
-  {
-    id: 'bazaar',
-    name: 'Bazaar.Shop',
-    colorKey: 'orange',
-    icon: '◉',
-    shortDescription: 'Region-based marketplace platform',
-    description: 'A region-based marketplace platform where each region runs its own Identity, Marketplace, and Payment clusters — while stores deploy as independent microservice clusters.',
-    slideCount: 4,
-  },
-  {
-    id: 'spatium',
-    name: 'Spatium.ai',
-    colorKey: 'purple',
-    icon: '◎',
-    shortDescription: 'Spatial computing',
-    description: 'What if computation wasn\'t about connections, but about resonance?',
-    slideCount: 4,
-  }
-];
-
-export const getProject = (id: string): Project | undefined =>
-  projects.find(p => p.id === id);
+/**
+ * All projects from the projects collection, in their configured order
+ */
+export async function getProjects(): Promise<Project[]> {
+  const entries = await getCollection('projects');
+  return entries
+    .sort((a, b) => a.data.order - b.data.order || a.id.localeCompare(b.id))
+    .map(({ id, data: { order, ...data } }) => ({ id, ...data }));
+}
 
-export const getProjectColorKey = (id: string): PaletteColorKey =>
-  getProject(id)?.colorKey || 'blue';
+export async function getProject(id: string): Promise<Project | undefined> {
+  return (await getProjects()).find(p => p.id === id);
+}
 
-export const getProjectColorVar = (id: string): string =>
-  `var(--color-${getProjectColorKey(id)})`;
+/**
+ * Projects keyed by id, for lookups inside template loops
+ */
+export async function getProjectMap(): Promise<Map<string, Project>> {
+  return new Map((await getProjects()).map(p => [p.id, p]));
+}
 
-// used in nav dropdown etc
-export const projectColors = Object.fromEntries(
-  projects.map(p => [p.id, { name: p.name, colorKey: p.colorKey }])
-) as Record<string, { name: string; colorKey: PaletteColorKey }>;
+/**
+ * Project a post belongs to, resolved from its `project` reference
+ */
+export async function getPostProject(post: BlogPost): Promise<Project | undefined> {
+  return post.data.project ? getProject(post.data.project.id) : undefined;
+}
@@ -0,0 +1,34 @@
+/**
+ * Publishing state
+ * Drafts and scheduled posts (publishAt in the future at build time) stay out of
+ * listings and feeds; preview mode still renders their pages behind a banner
+ */
+
+import type { BlogPost } from './getPosts';
+
+export type PublishState = 'published' | 'draft' | 'scheduled';
+
+// Evaluated once so every page of a build agrees on what is live
+const BUILD_TIME = new Date();
+
+/**
+ * Preview mode: always on under `astro dev`, opt-in for builds via DEVLOG_PREVIEW=true
+ */
+export const PREVIEW_MODE = import.meta.env.DEV || process.env.DEVLOG_PREVIEW === 'true';
+
+export function getPublishState(post: BlogPost, now: Date = BUILD_TIME): PublishState {
+  if (post.data.draft) return 'draft';
+  if (post.data.publishAt && post.data.publishAt > now) return 'scheduled';
+  return 'published';
+}
+
+export function isPublished(post: BlogPost): boolean {
+  return getPublishState(post) === 'published';
+}
+
+/**
+ * Whether the post gets a page in this build (published, or any post in preview mode)
+ */
+export function hasPage(post: BlogPost): boolean {
+  return PREVIEW_MODE || isPublished(post);
+}
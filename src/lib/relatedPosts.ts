@@ -0,0 +1,100 @@
+/**
+ * Related-posts engine
+ * Scores every other post by weighted, rarity-adjusted overlap of taxonomy terms
+ */
+
+import type { BlogPost } from './getPosts';
+import { slugifyTerm, type TaxonomyKey } from './taxonomy';
+
+export interface RelatedPost {
+  post: BlogPost;
+  score: number;
+  /** Shared term labels, strongest first */
+  shared: string[];
+  sameProject: boolean;
+}
+
+const TAXONOMY_WEIGHTS: Record<TaxonomyKey, number> = {
+  patterns: 3,
+  architectures: 2.5,
+  languages: 1,
+  tags: 1,
+};
+
+const SAME_PROJECT_BOOST = 1;
+const MAX_RELATED = 3;
+const MAX_REASONS = 3;
+
+type TermIndex = Map<string, { label: string; weight: number }>;
+
+function indexTerms(post: BlogPost): TermIndex {
+  const terms: TermIndex = new Map();
+  for (const taxonomy of Object.keys(TAXONOMY_WEIGHTS) as TaxonomyKey[]) {
+    for (const label of post.data[taxonomy]) {
+      const key = `${taxonomy}:${slugifyTerm(label)}`;
+      if (!terms.has(key)) {
+        terms.set(key, { label, weight: TAXONOMY_WEIGHTS[taxonomy] });
+      }
+    }
+  }
+  return terms;
+}
+
+/**
+ * Compute related posts for every post in one pass
+ * Terms used by every post (e.g. "devlog") carry no signal and score zero.
+ * When the top picks are all from the same project, the best cross-project
+ * match takes the last slot.
+ */
+export function getRelatedPosts(posts: BlogPost[]): Map<string, RelatedPost[]> {
+  const indexed = posts.map(post => ({ post, terms: indexTerms(post) }));
+
+  const documentFrequency = new Map<string, number>();
+  for (const { terms } of indexed) {
+    for (const key of terms.keys()) {
+      documentFrequency.set(key, (documentFrequency.get(key) ?? 0) + 1);
+    }
+  }
+  const idf = (key: string) => Math.log(posts.length / (documentFrequency.get(key) ?? posts.length));
+
+  const related = new Map<string, RelatedPost[]>();
+
+  for (const current of indexed) {
+    const candidates: RelatedPost[] = [];
+
+    for (const other of indexed) {
+      if (other.post.id === current.post.id) continue;
+
+      const shared: { label: string; score: number }[] = [];
+      for (const [key, term] of current.terms) {
+        const otherTerm = other.terms.get(key);
+        if (!otherTerm) continue;
+        const score = term.weight * idf(key);
+        if (score > 0) shared.push({ label: otherTerm.label, score });
+      }
+      if (shared.length === 0) continue;
+
+      const sameProject = !!current.post.data.project && current.post.data.project.id === other.post.data.project?.id;
+      const score = shared.reduce((sum, s) => sum + s.score, 0) + (sameProject ? SAME_PROJECT_BOOST : 0);
+
+      candidates.push({
+        post: other.post,
+        score,
+        shared: shared.sort((a, b) => b.score - a.score).slice(0, MAX_REASONS).map(s => s.label),
+        sameProject,
+      });
+    }
+
+    candidates.sort((a, b) => b.score - a.score || b.post.data.date.valueOf() - a.post.data.date.valueOf());
+    const picks = candidates.slice(0, MAX_RELATED);
+
+    if (picks.length === MAX_RELATED && picks.every(p => p.sameProject)) {
+      const crossProject = candidates.find(c => !c.sameProject);
+      if (crossProject) picks[MAX_RELATED - 1] = crossProject;
+    }
+
+    related.set(current.post.id, picks);
+  }
+
+  return related;
+}
@@ -0,0 +1,321 @@
+/**
+ * Client-side search over the build-time index
+ * Ranking, highlighting and the header search dialog wiring
+ */
+
+import { createModalManager } from './modalManager';
+import { formatDateShort } from './dateUtils';
+import { resolveLocale, useTranslations } from './i18n';
+import { SEARCH_INDEX_PATH, type SearchDocument } from './searchIndex';
+import type { IndicatorFlag } from './contentIndicators';
+
+type SearchField = 'title' | 'headings' | 'terms' | 'description' | 'body';
+
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 10,
+  headings: 6,
+  terms: 5,
+  description: 3,
+  body: 1,
+};
+
+// Long bodies shouldn't drown out a title hit
+const MAX_OCCURRENCES = 5;
+const MAX_RESULTS = 20;
+const SNIPPET_BEFORE = 60;
+const SNIPPET_AFTER = 140;
+
+export interface SearchFilters {
+  projects: Set<string>;
+  indicators: Set<IndicatorFlag>;
+}
+
+export interface SearchResult {
+  doc: SearchDocument;
+  score: number;
+  tokens: string[];
+}
+
+interface PreparedDocument {
+  doc: SearchDocument;
+  fields: Record<SearchField, string>;
+}
+
+function prepare(doc: SearchDocument): PreparedDocument {
+  return {
+    doc,
+    fields: {
+      title: doc.title.toLowerCase(),
+      headings: doc.headings.join(' \n ').toLowerCase(),
+      terms: doc.terms.join(' \n ').toLowerCase(),
+      description: doc.description.toLowerCase(),
+      body: doc.words,
+    },
+  };
+}
+
+export function tokenize(query: string): string[] {
+  return [...new Set(query.toLowerCase().split(/\s+/).map(t => t.trim()).filter(Boolean))];
+}
+
+function isWordStart(text: string, index: number): boolean {
+  return index === 0 || !/[\p{L}\p{N}]/u.test(text[index - 1]);
+}
+
+function scoreField(text: string, token: string): number {
+  let score = 0;
+  let count = 0;
+  let index = text.indexOf(token);
+
+  while (index !== -1 && count < MAX_OCCURRENCES) {
+    score += isWordStart(text, index) ? 1.5 : 1;
+    count++;
+    index = text.indexOf(token, index + token.length);
+  }
+
+  return score;
+}
+
+function matchesFilters(doc: SearchDocument, filters: SearchFilters): boolean {
+  if (filters.projects.size > 0 && (!doc.project || !filters.projects.has(doc.project))) {
+    return false;
+  }
+  for (const indicator of filters.indicators) {
+    if (!doc.indicators[indicator]) return false;
+  }
+  return true;
+}
+
+/**
+ * Rank documents against a query. Every token must match at least one field.
+ * An empty query with active filters lists matching posts newest first.
+ */
+export function searchDocuments(
+  prepared: PreparedDocument[],
+  query: string,
+  filters: SearchFilters
+): SearchResult[] {
+  const tokens = tokenize(query);
+  const hasFilters = filters.projects.size > 0 || filters.indicators.size > 0;
+  if (tokens.length === 0 && !hasFilters) return [];
+
+  const results: SearchResult[] = [];
+
+  for (const { doc, fields } of prepared) {
+    if (!matchesFilters(doc, filters)) continue;
+
+    let score = 0;
+    let allMatched = true;
+
+    for (const token of tokens) {
+      let tokenScore = 0;
+      for (const field of Object.keys(FIELD_WEIGHTS) as SearchField[]) {
+        tokenScore += scoreField(fields[field], token) * FIELD_WEIGHTS[field];
+      }
+      if (tokenScore === 0) {
+        allMatched = false;
+        break;
+      }
+      score += tokenScore;
+    }
+
+    if (!allMatched) continue;
+
+    // Whole-phrase bonus for multi-word queries
+    if (tokens.length > 1 && fields.title.includes(tokens.join(' '))) {
+      score += FIELD_WEIGHTS.title * 2;
+    }
+
+    results.push({ doc, score, tokens });
+  }
+
+  return results
+    .sort((a, b) => b.score - a.score || b.doc.date.localeCompare(a.doc.date))
+    .slice(0, MAX_RESULTS);
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Wrap every token occurrence in <mark>, escaping the text around and inside the marks
+ * Matching runs on the raw text, so a token can never land inside an entity like &amp;
+ */
+export function highlight(text: string, tokens: string[]): string {
+  if (tokens.length === 0) return escapeHtml(text);
+
+  const pattern = tokens
+    .map(escapeRegExp)
+    .sort((a, b) => b.length - a.length)
+    .join('|');
+
+  // split() with a capture group puts the matches at the odd indexes
+  return text
+    .split(new RegExp(`(${pattern})`, 'gi'))
+    .map((segment, index) => index % 2 === 1 ? `<mark>${escapeHtml(segment)}</mark>` : escapeHtml(segment))
+    .join('');
+}
+
+/**
+ * Short excerpt around the first token hit in the body's opening words, falling back
+ * to the description (the index only ships the start of each body)
+ */
+export function getSnippet(doc: SearchDocument, tokens: string[]): string {
+  const { excerpt } = doc;
+  const lower = excerpt.toLowerCase();
+  const positions = tokens.map(token => lower.indexOf(token)).filter(index => index !== -1);
+  if (positions.length === 0) return doc.description || excerpt;
+
+  const hit = Math.min(...positions);
+  let start = Math.max(0, hit - SNIPPET_BEFORE);
+  let end = Math.min(excerpt.length, hit + SNIPPET_AFTER);
+
+  // Snap to word boundaries
+  if (start > 0) start = excerpt.indexOf(' ', start) + 1 || start;
+  if (end < excerpt.length) end = excerpt.lastIndexOf(' ', end) || end;
+
+  return `${start > 0 ? '… ' : ''}${excerpt.slice(start, end)}${end < excerpt.length ? ' …' : ''}`;
+}
+
+/**
+ * Wire up the header search dialog
+ * The index is fetched on first open and cached for the page lifetime
+ */
+export function initSearch(modalId: string = 'search-modal', toggleId: string = 'search-toggle'): void {
+  const modal = createModalManager(modalId);
+  const element = modal.getElement();
+  const toggle = document.getElementById(toggleId);
+  const input = element?.querySelector('[data-search-input]') as HTMLInputElement | null;
+  const resultsList = element?.querySelector('[data-search-results]') as HTMLElement | null;
+  const status = element?.querySelector('[data-search-status]') as HTMLElement | null;
+  if (!element || !input || !resultsList || !status) return;
+
+  const locale = resolveLocale(document.documentElement.lang);
+  const t = useTranslations(locale);
+  const filters: SearchFilters = { projects: new Set(), indicators: new Set() };
+  const projectInfo = new Map<string, { name: string; colorKey: string }>();
+  element.querySelectorAll<HTMLElement>('[data-filter-project]').forEach(chip => {
+    projectInfo.set(chip.dataset.filterProject!, {
+      name: chip.dataset.projectName ?? '',
+      colorKey: chip.dataset.color ?? '',
+    });
+  });
+
+  let prepared: PreparedDocument[] | null = null;
+  let loading: Promise<void> | null = null;
+  let activeIndex = -1;
+
+  function loadIndex(): Promise<void> {
+    loading ??= fetch(SEARCH_INDEX_PATH)
+      .then(res => res.json() as Promise<SearchDocument[]>)
+      .then(docs => {
+        prepared = docs.map(prepare);
+      })
+      .catch(() => {
+        status!.textContent = t('search.loadError');
+      });
+    return loading;
+  }
+
+  function setActive(index: number) {
+    const items = resultsList!.querySelectorAll<HTMLElement>('.search-result');
+    items.forEach((item, i) => item.classList.toggle('active', i === index));
+    activeIndex = index;
+    items[index]?.scrollIntoView({ block: 'nearest' });
+  }
+
+  function render() {
+    if (!prepared) return;
+    const results = searchDocuments(prepared, input!.value, filters);
+    const hasQuery = tokenize(input!.value).length > 0 || filters.projects.size > 0 || filters.indicators.size > 0;
+
+    resultsList!.innerHTML = results.map(({ doc, tokens }) => {
+      const project = doc.project ? projectInfo.get(doc.project) : undefined;
+      const meta = [project?.name, formatDateShort(new Date(doc.date), locale)].filter(Boolean).join(' · ');
+      return `
+        <li>
+          <a href="${doc.url}" class="search-result" data-color="${project?.colorKey ?? ''}">
+            <span class="result-title">${highlight(doc.title, tokens)}</span>
+            <span class="result-meta">${escapeHtml(meta)}</span>
+            <span class="result-snippet">${highlight(getSnippet(doc, tokens), tokens)}</span>
+          </a>
+        </li>`;
+    }).join('');
+
+    status!.textContent = !hasQuery
+      ? ''
+      : results.length === 0
+        ? t('search.empty')
+        : t('search.results', { count: results.length });
+    setActive(results.length > 0 ? 0 : -1);
+  }
+
+  function open() {
+    modal.open();
+    input!.focus();
+    input!.select();
+    loadIndex().then(render);
+  }
+
+  toggle?.addEventListener('click', open);
+  element.querySelectorAll('[data-search-close]').forEach(el => el.addEventListener('click', modal.close));
+
+  input.addEventListener('input', render);
+
+  element.querySelectorAll<HTMLButtonElement>('[data-filter-project], [data-filter-indicator]').forEach(chip => {
+    chip.addEventListener('click', () => {
+      const project = chip.dataset.filterProject;
+      const indicator = chip.dataset.filterIndicator as IndicatorFlag | undefined;
+      const set: Set<string> = project ? filters.projects : filters.indicators;
+      const value = project ?? indicator!;
+
+      if (set.has(value)) {
+        set.delete(value);
+      } else {
+        set.add(value);
+      }
+      chip.setAttribute('aria-pressed', String(set.has(value)));
+      render();
+      input!.focus();
+    });
+  });
+
+  input.addEventListener('keydown', (e) => {
+    const count = resultsList.querySelectorAll('.search-result').length;
+    if (e.key === 'ArrowDown' && count > 0) {
+      e.preventDefault();
+      setActive((activeIndex + 1) % count);
+    } else if (e.key === 'ArrowUp' && count > 0) {
+      e.preventDefault();
+      setActive((activeIndex - 1 + count) % count);
+    } else if (e.key === 'Enter' && activeIndex >= 0) {
+      e.preventDefault();
+      resultsList.querySelectorAll<HTMLAnchorElement>('.search-result')[activeIndex]?.click();
+    }
+  });
+
+  document.addEventListener('keydown', (e) => {
+    if (e.key === 'Escape' && modal.isOpen()) {
+      modal.close();
+      return;
+    }
+
+    const target = e.target as HTMLElement | null;
+    const isTyping = target?.tagName === 'INPUT' || target?.tagName === 'TEXTAREA' || target?.isContentEditable;
+    const isShortcut = (e.key === 'k' && (e.metaKey || e.ctrlKey)) || (e.key === '/' && !isTyping);
+
+    if (isShortcut && !modal.isOpen()) {
+      e.preventDefault();
+      open();
+    }
+  });
+}
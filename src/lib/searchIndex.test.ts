@@ -0,0 +1,30 @@
+/**
+ * Search index tests
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { extractWords, getExcerpt, markdownToText } from './searchIndex';
+
+describe('markdownToText', () => {
+  it('drops code and headings and unwraps inline markup', () => {
+    const text = markdownToText('## Heading\n\nSome **bold** [link](https://x.dev) and `code`.\n\n```rust\nfn main() {}\n```\n');
+    assert.equal(text, 'Some bold link and code.');
+  });
+});
+
+describe('extractWords', () => {
+  it('keeps distinct words long enough to search, minus prefixes of longer ones', () => {
+    assert.deepEqual(
+      extractWords('Graph graphs of a SignalMap, the graph’s 64-bit ports; ports are GRAPHS'),
+      ['64-bit', 'are', 'graphs', 'graph’s', 'ports', 'signalmap', 'the']
+    );
+  });
+});
+
+describe('getExcerpt', () => {
+  it('keeps short text whole and cuts long text after the word limit', () => {
+    assert.equal(getExcerpt('one two three', 5), 'one two three');
+    assert.equal(getExcerpt('one two three four', 2), 'one two …');
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Build-time search index
+ * Flattens each post into plain-text fields the client-side search can rank against.
+ * Every visitor downloads the index, so bodies ship as a short excerpt plus their
+ * distinct words rather than in full.
+ */
+
+import type { BlogPost } from './getPosts';
+import { detectContentIndicators, type ContentIndicators } from './contentIndicators';
+
+export const SEARCH_INDEX_PATH = '/search-index.json';
+
+const EXCERPT_WORDS = 40;
+const MIN_WORD_LENGTH = 3;
+
+export interface SearchDocument {
+  id: string;
+  url: string;
+  title: string;
+  description: string;
+  /** ISO date string */
+  date: string;
+  project?: string;
+  headings: string[];
+  terms: string[];
+  /** Opening words of the body, the snippet and highlight source */
+  excerpt: string;
+  /** Distinct lowercase body words, space-separated, minus those that prefix a longer one */
+  words: string;
+  indicators: ContentIndicators;
+}
+
+/**
+ * Pull `##`-and-deeper heading text out of markdown, skipping fenced code
+ */
+export function extractHeadings(markdown: string): string[] {
+  const withoutCode = markdown.replace(/```[\s\S]*?```/g, '');
+  return [...withoutCode.matchAll(/^#{2,6}\s+(.+?)\s*#*$/gm)].map(match => stripInline(match[1]));
+}
+
+function stripInline(text: string): string {
+  return text
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/`([^`]*)`/g, '$1')
+    .replace(/(\*\*|__|\*|_|~~)(.+?)\1/g, '$2')
+    .replace(/<[^>]+>/g, '');
+}
+
+/**
+ * Reduce markdown to searchable prose: code fences and headings are dropped
+ * (headings are indexed separately), inline markup is unwrapped
+ */
+export function markdownToText(markdown: string): string {
+  return stripInline(
+    markdown
+      .replace(/```[\s\S]*?```/g, ' ')
+      .replace(/^#{1,6}\s+.*$/gm, ' ')
+      .replace(/^\s*>\s?/gm, '')
+      .replace(/^\s*([-*+]|\d+\.)\s+/gm, '')
+      .replace(/^\s*\|?[-:| ]+\|?\s*$/gm, ' ')
+      .replace(/\|/g, ' ')
+  )
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Distinct words of a text, enough for substring matching: short words and words
+ * that prefix a longer kept word ("graph" in "graphs") are dropped
+ */
+export function extractWords(text: string): string[] {
+  const words = [...new Set(text.toLowerCase().match(/[\p{L}\p{N}][\p{L}\p{N}_'’-]*/gu) ?? [])]
+    .filter(word => word.length >= MIN_WORD_LENGTH)
+    .sort();
+  return words.filter((word, i) => !words[i + 1]?.startsWith(word));
+}
+
+export function getExcerpt(text: string, wordCount: number = EXCERPT_WORDS): string {
+  const words = text.split(' ');
+  return words.length > wordCount ? `${words.slice(0, wordCount).join(' ')} …` : text;
+}
+
+export function buildSearchIndex(
+  posts: BlogPost[],
+  indicators: Map<string, ContentIndicators>
+): SearchDocument[] {
+  return posts.map(post => {
+    const body = post.body ?? '';
+    const text = markdownToText(body);
+    const { title, description, date, project, languages, patterns, architectures, tags } = post.data;
+
+    return {
+      id: post.id,
+      url: `/blog/${post.id}`,
+      title,
+      description: description ?? '',
+      date: date.toISOString(),
+      project: project?.id,
+      headings: extractHeadings(body),
+      terms: [...new Set([...languages, ...patterns, ...architectures, ...tags])],
+      excerpt: getExcerpt(text),
+      words: extractWords(text).join(' '),
+      indicators: indicators.get(post.id) ?? detectContentIndicators(''),
+    };
+  });
+}
@@ -0,0 +1,77 @@
+/**
+ * SEO metadata
+ * Meta descriptions and schema.org JSON-LD for pages, built from post frontmatter
+ */
+
+import type { BlogPost } from './getPosts';
+import type { Project } from './projects';
+import { markdownToText } from './searchIndex';
+import { extractWeekAtAGlance } from './weekDigests';
+import { SITE } from './constants';
+
+/** Search engines cut snippets around this length */
+export const META_DESCRIPTION_LENGTH = 160;
+
+/**
+ * Shorten at a word boundary, with an ellipsis when anything was cut
+ */
+export function truncateDescription(text: string, maxLength: number = META_DESCRIPTION_LENGTH): string {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  if (clean.length <= maxLength) return clean;
+  const cut = clean.slice(0, maxLength - 1);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > maxLength / 2 ? cut.slice(0, lastSpace) : cut).replace(/[\s,.;:—-]+$/, '')}…`;
+}
+
+/**
+ * Frontmatter description, else the Week at a Glance bullets, else the opening of the post's prose
+ */
+export function getPostDescription(post: BlogPost): string {
+  if (post.data.description) return post.data.description;
+  const glance = extractWeekAtAGlance(post.body).map(item => markdownToText(item).replace(/[.;]$/, ''));
+  const text = glance.length > 0 ? `${glance.join('. ')}.` : markdownToText(post.body ?? '');
+  return truncateDescription(text) || SITE.description;
+}
+
+export interface BlogPostingOptions {
+  /** Absolute URL of the post page */
+  url: string;
+  /** Absolute URL of the social card */
+  image?: string;
+  project?: Project;
+}
+
+export function buildBlogPostingJsonLd(post: BlogPost, { url, image, project }: BlogPostingOptions) {
+  const { title, date, tags, languages, patterns, architectures, lang } = post.data;
+  const keywords = [...new Set([...tags, ...languages, ...patterns, ...architectures])];
+  const author = { '@type': 'Person', name: SITE.author };
+
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'BlogPosting',
+    headline: title,
+    description: getPostDescription(post),
+    url,
+    mainEntityOfPage: { '@type': 'WebPage', '@id': url },
+    datePublished: date.toISOString(),
+    dateModified: date.toISOString(),
+    inLanguage: lang,
+    author,
+    publisher: author,
+    ...(image && { image }),
+    ...(keywords.length > 0 && { keywords: keywords.join(', ') }),
+    ...(project && {
+      articleSection: project.name,
+      about: { '@type': 'SoftwareApplication', name: project.name, description: project.shortDescription },
+    }),
+    isPartOf: { '@type': 'Blog', name: SITE.title },
+  };
+}
+
+/**
+ * JSON for a <script type="application/ld+json"> body; "<" is escaped so the
+ * content can never close the script tag
+ */
+export function serializeJsonLd(data: object): string {
+  return JSON.stringify(data).replace(/</g, '\\u003c');
+}
@@ -0,0 +1,55 @@
+/**
+ * Series numbering tests
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { BlogPost } from './getPosts';
+import { collectSeries, getSeriesPosition } from './series';
+
+function entry(id: string, date: string, seriesPart?: number): BlogPost {
+  return {
+    id,
+    collection: 'blog',
+    data: { series: 'The Arc', date: new Date(date), ...(seriesPart && { seriesPart }) },
+  } as BlogPost;
+}
+
+function parts(posts: BlogPost[]) {
+  const seriesList = collectSeries(posts);
+  return seriesList[0].posts.map(post => {
+    const position = getSeriesPosition(seriesList, post)!;
+    return [post.id, position.part, position.total];
+  });
+}
+
+describe('series parts', () => {
+  it('numbers undeclared posts by date', () => {
+    assert.deepEqual(parts([entry('b', '2026-02-01'), entry('a', '2026-01-01')]), [
+      ['a', 1, 2],
+      ['b', 2, 2],
+    ]);
+  });
+
+  it('keeps declared parts, gaps included', () => {
+    assert.deepEqual(parts([entry('a', '2026-01-01', 1), entry('c', '2026-03-01', 3)]), [
+      ['a', 1, 3],
+      ['c', 3, 3],
+    ]);
+  });
+
+  it('numbers undeclared posts after the highest declared part', () => {
+    const posts = [
+      entry('undeclared-early', '2026-01-01'),
+      entry('part-1', '2026-01-08', 1),
+      entry('part-2', '2026-01-15', 2),
+      entry('undeclared-late', '2026-01-22'),
+    ];
+    assert.deepEqual(parts(posts), [
+      ['part-1', 1, 4],
+      ['part-2', 2, 4],
+      ['undeclared-early', 3, 4],
+      ['undeclared-late', 4, 4],
+    ]);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Post series helpers
+ * Multi-week arcs are declared in frontmatter via `series` and optional `seriesPart`
+ */
+
+import type { BlogPost } from './getPosts';
+import { slugifyTerm } from './taxonomy';
+
+export interface Series {
+  slug: string;
+  name: string;
+  /** Posts in reading order (seriesPart, then date) */
+  posts: BlogPost[];
+}
+
+export interface SeriesPosition {
+  series: Series;
+  /** 1-based part number within the series */
+  part: number;
+  total: number;
+}
+
+export function getSeriesPath(name: string): string {
+  return `/series/${slugifyTerm(name)}`;
+}
+
+function compareParts(a: BlogPost, b: BlogPost): number {
+  const partA = a.data.seriesPart ?? Number.POSITIVE_INFINITY;
+  const partB = b.data.seriesPart ?? Number.POSITIVE_INFINITY;
+  if (partA !== partB) return partA - partB;
+  return a.data.date.valueOf() - b.data.date.valueOf();
+}
+
+/**
+ * Group posts into series, each ordered by part number with date as the tiebreaker
+ */
+export function collectSeries(posts: BlogPost[]): Series[] {
+  const groups = new Map<string, Series>();
+
+  for (const post of posts) {
+    const name = post.data.series;
+    if (!name) continue;
+
+    const slug = slugifyTerm(name);
+    let series = groups.get(slug);
+    if (!series) {
+      series = { slug, name, posts: [] };
+      groups.set(slug, series);
+    }
+    series.posts.push(post);
+  }
+
+  for (const series of groups.values()) {
+    series.posts.sort(compareParts);
+  }
+
+  return [...groups.values()];
+}
+
+/**
+ * Part number of the post at `index`: the declared seriesPart, else numbered after the
+ * highest declared part in reading order, so a mixed series never repeats a number
+ */
+export function getSeriesPart(series: Series, index: number): number {
+  const declared = series.posts[index].data.seriesPart;
+  if (declared !== undefined) return declared;
+
+  const highest = Math.max(0, ...series.posts.map(post => post.data.seriesPart ?? 0));
+  const undeclaredBefore = series.posts.slice(0, index).filter(post => post.data.seriesPart === undefined).length;
+  return highest + undeclaredBefore + 1;
+}
+
+/**
+ * Parts in the series, counting declared parts that aren't published (yet)
+ */
+export function getSeriesTotal(series: Series): number {
+  return Math.max(series.posts.length, ...series.posts.map((_, index) => getSeriesPart(series, index)));
+}
+
+/**
+ * Locate a post inside its series, or null when it isn't part of one
+ */
+export function getSeriesPosition(seriesList: Series[], post: BlogPost): SeriesPosition | null {
+  for (const series of seriesList) {
+    const index = series.posts.findIndex(p => p.id === post.id);
+    if (index !== -1) {
+      return { series, part: getSeriesPart(series, index), total: getSeriesTotal(series) };
+    }
+  }
+  return null;
+}
@@ -0,0 +1,69 @@
+/**
+ * Post style lint tests
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { lintPostStyle, STYLE_LIMITS, type StyleIssue } from './styleLint';
+
+const FRONTMATTER = '---\ntitle: Week\ntags: [devlog, weekly]\n---\n';
+const FILLER = Array.from({ length: 1000 }, () => 'word').join(' ');
+
+/** Post with enough prose to pass the word count; `body` starts on line 8 */
+function post(...body: string[]): string {
+  return `${FRONTMATTER}\n${FILLER}\n\n${body.join('\n')}\n`;
+}
+
+function summarize(issues: StyleIssue[]) {
+  return issues.map(({ rule, line }) => ({ rule, line }));
+}
+
+describe('lintPostStyle', () => {
+  it('passes a post within the rules', () => {
+    assert.deepEqual(lintPostStyle(post('- `Graph`, `Port`, `Edge` and others')), []);
+  });
+
+  it('reports word counts outside the range on the first body line', () => {
+    const issues = lintPostStyle(`${FRONTMATTER}\nToo short.\n`);
+    assert.deepEqual(summarize(issues), [{ rule: 'word-count', line: 5 }]);
+    assert.match(issues[0].message, new RegExp(`aim for ${STYLE_LIMITS.minWords}`));
+  });
+
+  it('reports long code blocks at their opening fence', () => {
+    const code = Array.from({ length: STYLE_LIMITS.maxCodeLines + 1 }, (_, i) => `let x${i} = ${i};`);
+    assert.deepEqual(summarize(lintPostStyle(post('Intro.', '```rust', ...code, '```'))), [
+      { rule: 'code-length', line: 9 },
+    ]);
+  });
+
+  it('reports enumerated enum variants unless the block elides them', () => {
+    const block = ['```rust', 'enum Op {', '    Add,', '    Sub,', '    Mul,', '    Div,', '}', '```'];
+    assert.deepEqual(summarize(lintPostStyle(post(...block))), [{ rule: 'enumeration', line: 10 }]);
+
+    const elided = [...block.slice(0, 5), '    // ...', ...block.slice(6)];
+    assert.deepEqual(lintPostStyle(post(...elided)), []);
+  });
+
+  it('reports bullet lists of identifiers without a continuation', () => {
+    const list = ['- `Graph` nodes', '- `Port` wiring', '- `Edge` types', '- `Signal` maps'];
+    assert.deepEqual(summarize(lintPostStyle(post(...list))), [{ rule: 'enumeration', line: 8 }]);
+    assert.deepEqual(lintPostStyle(post(...list, '- and others')), []);
+  });
+
+  it('reports inline runs of identifiers on their line', () => {
+    const issues = lintPostStyle(post('Intro.', 'Touches `Graph`, `Port`, `Edge`, and `Signal`.'));
+    assert.deepEqual(summarize(issues), [{ rule: 'enumeration', line: 9 }]);
+    assert.match(issues[0].message, /inline list of 4 identifiers/);
+  });
+
+  it('reports brand names in prose but not in link targets', () => {
+    const issues = lintPostStyle(post('Debugged it in VS Code.', 'See [the docs](https://example.atlassian.net/Jira/guide).'));
+    assert.deepEqual(summarize(issues), [{ rule: 'brand-name', line: 8 }]);
+    assert.match(issues[0].message, /"VS Code"/);
+  });
+
+  it('counts lines the same with CRLF line endings', () => {
+    const issues = lintPostStyle(post('Debugged it in Xcode.').replace(/\n/g, '\r\n'));
+    assert.deepEqual(summarize(issues), [{ rule: 'brand-name', line: 8 }]);
+  });
+});
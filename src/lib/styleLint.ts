@@ -0,0 +1,227 @@
+/**
+ * Post style lint
+ * Checks a weekly post's markdown against the writing rules in weekly_prompt.txt:
+ * length, snippet size, partial enumerations and no commercial brand names
+ */
+
+import { computePostStats } from './postStats';
+
+export type StyleRule = 'word-count' | 'code-length' | 'enumeration' | 'brand-name';
+
+export interface StyleIssue {
+  rule: StyleRule;
+  /** 1-based line in the post file */
+  line: number;
+  message: string;
+}
+
+export const STYLE_LIMITS = {
+  minWords: 800,
+  maxWords: 1500,
+  maxCodeLines: 20,
+  /** Enumerations show 2–3 examples, then "and others" */
+  maxEnumeration: 3,
+};
+
+export const BRAND_NAMES = [
+  'IntelliJ',
+  'JetBrains',
+  'VS Code',
+  'Visual Studio',
+  'Xcode',
+  'Sublime Text',
+  'PyCharm',
+  'WebStorm',
+  'CLion',
+  'ReSharper',
+  'Copilot',
+  'ChatGPT',
+  'Jira',
+  'Confluence',
+  'Notion',
+  'Slack',
+  'Figma',
+];
+
+const FRONTMATTER = /^---\r?\n[\s\S]*?\r?\n---\r?\n?/;
+const FENCE = /^(\s*)(`{3,}|~{3,})\s*([\w-]*)/;
+const CONTINUATION = /\b(and|among|plus)\s+(\w+\s+)?others?\b|\betc\.?|\band (many )?more\b|…|\.\.\./i;
+const ENUM_LINE = /^\s*([A-Z]\w*\s*(\(.*\)|\{.*\}|=\s*[^,]+)?|[a-z_]\w*\s*:\s*[^,;]+),?\s*$/;
+const BULLET = /^\s*(?:[-*+]|\d+[.)])\s+(.*)$/;
+const CODE_SPAN = /`[^`\n]+`/g;
+
+interface Fence {
+  /** Line of the opening fence */
+  line: number;
+  lang: string;
+  lines: string[];
+}
+
+function splitFrontmatter(source: string) {
+  const frontmatter = source.match(FRONTMATTER)?.[0] ?? '';
+  return {
+    body: source.slice(frontmatter.length),
+    lineOffset: frontmatter ? frontmatter.split('\n').length - 1 : 0,
+  };
+}
+
+/**
+ * Separate fenced blocks from prose, keeping prose line numbers intact
+ */
+function readFences(lines: string[], lineOffset: number) {
+  const fences: Fence[] = [];
+  const prose = [...lines];
+  let open: { fence: Fence; marker: string } | null = null;
+
+  lines.forEach((text, i) => {
+    const match = text.match(FENCE);
+    if (open) {
+      prose[i] = '';
+      if (match && match[2][0] === open.marker[0] && match[2].length >= open.marker.length && !match[3]) {
+        fences.push(open.fence);
+        open = null;
+      } else {
+        open.fence.lines.push(text);
+      }
+    } else if (match) {
+      prose[i] = '';
+      open = { fence: { line: lineOffset + i + 1, lang: match[3].toLowerCase(), lines: [] }, marker: match[2] };
+    }
+  });
+
+  return { fences, prose };
+}
+
+function checkCodeBlock(fence: Fence): StyleIssue[] {
+  if (fence.lang === 'mermaid') return [];
+  const issues: StyleIssue[] = [];
+
+  if (fence.lines.length > STYLE_LIMITS.maxCodeLines) {
+    issues.push({
+      rule: 'code-length',
+      line: fence.line,
+      message: `code block of ${fence.lines.length} lines (max ${STYLE_LIMITS.maxCodeLines})`,
+    });
+  }
+
+  // An elision comment anywhere in the block means the author already trimmed it
+  if (fence.lines.some(text => text.includes('...') || text.includes('…'))) return issues;
+
+  let run = 0;
+  let runStart = 0;
+  const flush = () => {
+    if (run > STYLE_LIMITS.maxEnumeration) {
+      issues.push({
+        rule: 'enumeration',
+        line: fence.line + runStart + 1,
+        message: `code block enumerates ${run} variants or fields without eliding the rest (max ${STYLE_LIMITS.maxEnumeration})`,
+      });
+    }
+    run = 0;
+  };
+  fence.lines.forEach((text, i) => {
+    // Only members of a braced body (enum, struct, struct literal) count, not parameter lists
+    const opensBody = run > 0 || fence.lines[i - 1]?.trimEnd().endsWith('{');
+    if (opensBody && ENUM_LINE.test(text) && text.trim() !== '') {
+      if (run === 0) runStart = i;
+      run++;
+    } else {
+      flush();
+    }
+  });
+  flush();
+
+  return issues;
+}
+
+/**
+ * Lists of identifiers: bullet lists whose items all lead with a code span, and
+ * inline runs of comma-separated code spans
+ */
+function checkProseEnumerations(prose: string[], lineOffset: number): StyleIssue[] {
+  const issues: StyleIssue[] = [];
+
+  let run = 0;
+  let runStart = 0;
+  let tail = '';
+  const flush = () => {
+    if (run > STYLE_LIMITS.maxEnumeration && !CONTINUATION.test(tail)) {
+      issues.push({
+        rule: 'enumeration',
+        line: lineOffset + runStart + 1,
+        message: `bullet list with ${run} enumerated items (show ${STYLE_LIMITS.maxEnumeration} at most, then "and others")`,
+      });
+    }
+    run = 0;
+    tail = '';
+  };
+
+  prose.forEach((text, i) => {
+    const item = text.match(BULLET)?.[1];
+    if (item?.startsWith('`')) {
+      if (run === 0) runStart = i;
+      run++;
+      tail = item;
+    } else if (!(run > 0 && /^\s+\S/.test(text))) {
+      // Anything but an indented continuation ends the list
+      if (run > 0 && text.trim() !== '') tail = text;
+      flush();
+    }
+
+    const spans = text.match(CODE_SPAN) ?? [];
+    if (spans.length > STYLE_LIMITS.maxEnumeration) {
+      const inline = new RegExp(`${CODE_SPAN.source}(?:\\s*,\\s*(?:and\\s+|or\\s+)?${CODE_SPAN.source}){${STYLE_LIMITS.maxEnumeration},}`);
+      const listed = text.match(inline);
+      if (listed && !CONTINUATION.test(text.slice((listed.index ?? 0) + listed[0].length))) {
+        const count = listed[0].match(CODE_SPAN)?.length ?? 0;
+        issues.push({
+          rule: 'enumeration',
+          line: lineOffset + i + 1,
+          message: `inline list of ${count} identifiers (show ${STYLE_LIMITS.maxEnumeration} at most, then "and others")`,
+        });
+      }
+    }
+  });
+  flush();
+
+  return issues;
+}
+
+function checkBrandNames(lines: string[], lineOffset: number): StyleIssue[] {
+  const issues: StyleIssue[] = [];
+  lines.forEach((text, i) => {
+    // Link targets are URLs, not prose
+    const visible = text.replace(/\]\([^)]*\)/g, ']').replace(/\bhttps?:\/\/\S+/g, '');
+    for (const brand of BRAND_NAMES) {
+      if (new RegExp(`\\b${brand.replace(/ /g, '\\s+')}\\b`).test(visible)) {
+        issues.push({ rule: 'brand-name', line: lineOffset + i + 1, message: `mentions the commercial brand "${brand}"` });
+      }
+    }
+  });
+  return issues;
+}
+
+/**
+ * Lint one post (frontmatter included, so reported lines match the file)
+ */
+export function lintPostStyle(source: string): StyleIssue[] {
+  const { body, lineOffset } = splitFrontmatter(source.replace(/\r\n/g, '\n'));
+  const lines = body.split('\n');
+  const { fences, prose } = readFences(lines, lineOffset);
+  const issues: StyleIssue[] = [];
+
+  const { wordCount } = computePostStats(body);
+  if (wordCount < STYLE_LIMITS.minWords || wordCount > STYLE_LIMITS.maxWords) {
+    issues.push({
+      rule: 'word-count',
+      line: lineOffset + 1,
+      message: `${wordCount} words (aim for ${STYLE_LIMITS.minWords}–${STYLE_LIMITS.maxWords})`,
+    });
+  }
+
+  issues.push(...fences.flatMap(checkCodeBlock));
+  issues.push(...checkProseEnumerations(prose, lineOffset));
+  issues.push(...checkBrandNames(lines, lineOffset));
+
+  return issues.sort((a, b) => a.line - b.line);
+}
@@ -0,0 +1,98 @@
+/**
+ * Table of contents behaviour for post pages
+ * Scroll-spy highlighting, wide-screen expansion and copyable heading anchors
+ */
+
+import { BREAKPOINTS } from './constants';
+import { resolveLocale, useTranslations } from './i18n';
+
+// Distance below the viewport top at which a heading counts as "current" (clears the sticky header)
+const SPY_OFFSET = 120;
+const COPIED_DURATION = 1500;
+
+/**
+ * Keep the TOC panel open on wide screens and highlight the section being read
+ */
+export function initTableOfContents(tocId: string = 'toc'): void {
+  const toc = document.getElementById(tocId);
+  const panel = toc?.querySelector<HTMLDetailsElement>('[data-toc-panel]');
+  const links = toc?.querySelectorAll<HTMLAnchorElement>('[data-toc-link]');
+  if (!toc || !panel || !links || links.length === 0) return;
+
+  const wide = window.matchMedia(`(min-width: ${BREAKPOINTS.xl}px)`);
+  const syncPanel = () => {
+    panel.open = wide.matches;
+  };
+  syncPanel();
+  wide.addEventListener('change', syncPanel);
+
+  const headings = Array.from(links)
+    .map(link => document.getElementById(link.dataset.tocLink!))
+    .filter((heading): heading is HTMLElement => heading !== null);
+
+  let ticking = false;
+
+  function update() {
+    ticking = false;
+    let current: HTMLElement | undefined;
+    for (const heading of headings) {
+      if (heading.getBoundingClientRect().top <= SPY_OFFSET) current = heading;
+      else break;
+    }
+
+    links!.forEach(link => {
+      const isActive = link.dataset.tocLink === current?.id;
+      link.classList.toggle('active', isActive);
+      if (isActive && wide.matches) link.scrollIntoView({ block: 'nearest' });
+    });
+  }
+
+  window.addEventListener('scroll', () => {
+    if (!ticking) {
+      ticking = true;
+      requestAnimationFrame(update);
+    }
+  }, { passive: true });
+
+  // Collapse the mobile panel after jumping to a section
+  links.forEach(link => {
+    link.addEventListener('click', () => {
+      if (!wide.matches) panel.open = false;
+    });
+  });
+
+  update();
+}
+
+/**
+ * Append a "#" anchor to every linkable heading; clicking it copies the section URL
+ */
+export function initHeadingAnchors(contentSelector: string = '.content'): void {
+  const content = document.querySelector(contentSelector);
+  const headings = content?.querySelectorAll<HTMLElement>('h2[id], h3[id], h4[id]');
+  if (!headings) return;
+  const t = useTranslations(resolveLocale(document.documentElement.lang));
+
+  headings.forEach(heading => {
+    const anchor = document.createElement('a');
+    anchor.href = `#${heading.id}`;
+    anchor.className = 'heading-anchor';
+    anchor.setAttribute('aria-label', t('toc.copyLink', { heading: heading.textContent?.trim() ?? '' }));
+    anchor.textContent = '#';
+
+    anchor.addEventListener('click', (e) => {
+      e.preventDefault();
+      const url = new URL(window.location.href);
+      url.hash = heading.id;
+      history.replaceState(history.state, '', url.toString());
+      heading.scrollIntoView({ behavior: 'smooth' });
+
+      navigator.clipboard?.writeText(url.toString()).then(() => {
+        anchor.classList.add('copied');
+        setTimeout(() => anchor.classList.remove('copied'), COPIED_DURATION);
+      }).catch(() => { /* clipboard unavailable, the hash update still works */ });
+    });
+
+    heading.appendChild(anchor);
+  });
+}
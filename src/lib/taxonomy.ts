@@ -0,0 +1,82 @@
+/**
+ * Taxonomy helpers
+ * Groups posts by the free-text frontmatter arrays (tags, languages, patterns, architectures)
+ */
+
+import type { BlogPost } from './getPosts';
+
+export type TaxonomyKey = 'tags' | 'languages' | 'patterns' | 'architectures';
+
+export interface TaxonomyInfo {
+  key: TaxonomyKey;
+  label: string;
+  singular: string;
+}
+
+export const TAXONOMIES: Record<TaxonomyKey, TaxonomyInfo> = {
+  languages: { key: 'languages', label: 'Languages', singular: 'Language' },
+  patterns: { key: 'patterns', label: 'Patterns', singular: 'Pattern' },
+  architectures: { key: 'architectures', label: 'Architectures', singular: 'Architecture' },
+  tags: { key: 'tags', label: 'Tags', singular: 'Tag' },
+};
+
+export const TAXONOMY_KEYS = Object.keys(TAXONOMIES) as TaxonomyKey[];
+
+export interface TaxonomyTerm {
+  slug: string;
+  label: string;
+  posts: BlogPost[];
+}
+
+/**
+ * URL-safe slug for a term: "C#" → "c-sharp", "Recipes / composable fragments" → "recipes-composable-fragments"
+ */
+export function slugifyTerm(term: string): string {
+  return term
+    .toLowerCase()
+    .replace(/#/g, ' sharp ')
+    .replace(/\+/g, ' plus ')
+    .replace(/\./g, ' dot ')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+export function getTermPath(taxonomy: TaxonomyKey, term: string): string {
+  return `/${taxonomy}/${slugifyTerm(term)}`;
+}
+
+/**
+ * Collect every term of a taxonomy with the posts that use it
+ * Spellings that slugify identically are merged; the most frequent one becomes the label
+ * Sorted by post count (desc), then label
+ */
+export function collectTerms(posts: BlogPost[], taxonomy: TaxonomyKey): TaxonomyTerm[] {
+  const groups = new Map<string, { spellings: Map<string, number>; posts: BlogPost[] }>();
+
+  for (const post of posts) {
+    const seen = new Set<string>();
+    for (const term of post.data[taxonomy]) {
+      const slug = slugifyTerm(term);
+      if (!slug) continue;
+
+      let group = groups.get(slug);
+      if (!group) {
+        group = { spellings: new Map(), posts: [] };
+        groups.set(slug, group);
+      }
+      group.spellings.set(term, (group.spellings.get(term) ?? 0) + 1);
+      if (!seen.has(slug)) {
+        group.posts.push(post);
+        seen.add(slug);
+      }
+    }
+  }
+
+  return [...groups.entries()]
+    .map(([slug, { spellings, posts }]) => ({
+      slug,
+      label: [...spellings.entries()].sort((a, b) => b[1] - a[1])[0][0],
+      posts,
+    }))
+    .sort((a, b) => b.posts.length - a.posts.length || a.label.localeCompare(b.label));
+}
@@ -0,0 +1,174 @@
+/**
+ * Taxonomy lint
+ * Checks frontmatter terms against the canonical taxonomy (src/data/taxonomy.yaml)
+ * and computes the canonical replacement list for autofix
+ */
+
+import { TAXONOMY_KEYS, type TaxonomyKey } from './taxonomy';
+
+/** Raw file shape: preferred spelling → aliases (or null when there are none) */
+export type CanonicalTaxonomyFile = Partial<Record<TaxonomyKey, Record<string, string[] | null>>>;
+
+export interface CanonicalTerms {
+  /** Preferred spellings keyed by lowercase form */
+  terms: Map<string, string>;
+  /** Lowercase alias → preferred spelling */
+  aliases: Map<string, string>;
+  /** Normalized key → preferred spelling, for near-duplicate detection */
+  normalized: Map<string, string>;
+}
+
+export type CanonicalTaxonomy = Record<TaxonomyKey, CanonicalTerms>;
+
+export type TermIssueKind = 'alias' | 'casing' | 'near-duplicate' | 'duplicate' | 'unknown';
+
+export interface TermIssue {
+  taxonomy: TaxonomyKey;
+  term: string;
+  kind: TermIssueKind;
+  /** Canonical replacement; absent when the term can't be fixed automatically */
+  replacement?: string;
+  /** Closest canonical terms, offered for unknown terms */
+  suggestions: string[];
+}
+
+const MAX_SUGGESTIONS = 3;
+const SIMILARITY_THRESHOLD = 0.6;
+
+/**
+ * Loose comparison key: "Builder pattern" → "builder", "Error-as-values" → "error as value"
+ */
+export function normalizeTermKey(term: string): string {
+  return term
+    .toLowerCase()
+    .replace(/[^a-z0-9#+]+/g, ' ')
+    .split(' ')
+    .filter(word => word && word !== 'pattern' && word !== 'patterns')
+    .map(word => (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word))
+    .join(' ');
+}
+
+function bigrams(text: string): string[] {
+  const compact = text.replace(/\s+/g, '');
+  const result: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) {
+    result.push(compact.slice(i, i + 2));
+  }
+  return result;
+}
+
+/**
+ * Dice coefficient over character bigrams of the normalized keys (0–1)
+ */
+export function termSimilarity(a: string, b: string): number {
+  const left = bigrams(normalizeTermKey(a));
+  const right = bigrams(normalizeTermKey(b));
+  if (left.length === 0 || right.length === 0) return 0;
+
+  const counts = new Map<string, number>();
+  for (const pair of left) counts.set(pair, (counts.get(pair) ?? 0) + 1);
+
+  let shared = 0;
+  for (const pair of right) {
+    const count = counts.get(pair) ?? 0;
+    if (count > 0) {
+      shared++;
+      counts.set(pair, count - 1);
+    }
+  }
+  return (2 * shared) / (left.length + right.length);
+}
+
+export function buildCanonicalTaxonomy(file: CanonicalTaxonomyFile): CanonicalTaxonomy {
+  const result = {} as CanonicalTaxonomy;
+
+  for (const taxonomy of TAXONOMY_KEYS) {
+    const canonical: CanonicalTerms = { terms: new Map(), aliases: new Map(), normalized: new Map() };
+
+    for (const [term, aliases] of Object.entries(file[taxonomy] ?? {})) {
+      canonical.terms.set(term.toLowerCase(), term);
+      canonical.normalized.set(normalizeTermKey(term), term);
+      for (const alias of aliases ?? []) {
+        canonical.aliases.set(alias.toLowerCase(), term);
+      }
+    }
+
+    result[taxonomy] = canonical;
+  }
+
+  return result;
+}
+
+function suggest(term: string, canonical: CanonicalTerms): string[] {
+  return [...canonical.terms.values()]
+    .map(candidate => ({ candidate, score: termSimilarity(term, candidate) }))
+    .filter(({ score }) => score >= SIMILARITY_THRESHOLD)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_SUGGESTIONS)
+    .map(({ candidate }) => candidate);
+}
+
+/**
+ * Resolve a single term to its preferred spelling, or describe why it can't be
+ */
+export function checkTerm(taxonomy: TaxonomyKey, term: string, canonical: CanonicalTaxonomy): TermIssue | null {
+  const terms = canonical[taxonomy];
+  const lower = term.toLowerCase();
+
+  const preferred = terms.terms.get(lower);
+  if (preferred === term) return null;
+  if (preferred) return { taxonomy, term, kind: 'casing', replacement: preferred, suggestions: [] };
+
+  const aliased = terms.aliases.get(lower);
+  if (aliased) return { taxonomy, term, kind: 'alias', replacement: aliased, suggestions: [] };
+
+  const nearDuplicate = terms.normalized.get(normalizeTermKey(term));
+  if (nearDuplicate) return { taxonomy, term, kind: 'near-duplicate', replacement: nearDuplicate, suggestions: [] };
+
+  return { taxonomy, term, kind: 'unknown', suggestions: suggest(term, terms) };
+}
+
+/**
+ * Check one post's terms for a taxonomy. Terms that collapse onto the same
+ * canonical spelling are reported as duplicates (autofix drops them).
+ */
+export function lintTerms(taxonomy: TaxonomyKey, terms: string[], canonical: CanonicalTaxonomy): TermIssue[] {
+  const issues: TermIssue[] = [];
+  const seen = new Set<string>();
+
+  for (const term of terms) {
+    const issue = checkTerm(taxonomy, term, canonical);
+    const resolved = (issue ? issue.replacement : term)?.toLowerCase();
+
+    if (resolved && seen.has(resolved)) {
+      issues.push({ taxonomy, term, kind: 'duplicate', suggestions: [] });
+      continue;
+    }
+    if (resolved) seen.add(resolved);
+    if (issue) issues.push(issue);
+  }
+
+  return issues;
+}
+
+/**
+ * Apply the fixable issues from lintTerms, keeping order and unknown terms as-is
+ */
+export function fixTerms(terms: string[], issues: TermIssue[]): string[] {
+  const result: string[] = [];
+  const seen = new Set<string>();
+
+  for (const term of terms) {
+    const issue = issues.find(i => i.term === term && i.kind !== 'duplicate' && i.replacement);
+    const fixed = issue?.replacement ?? term;
+    if (seen.has(fixed.toLowerCase())) continue;
+    seen.add(fixed.toLowerCase());
+    result.push(fixed);
+  }
+
+  return result;
+}
+
+export function isFixable(issue: TermIssue): boolean {
+  return issue.kind === 'duplicate' || issue.replacement !== undefined;
+}
@@ -34,6 +34,12 @@ export const COLORS = {
   accentLight: '#0969da',
 } as const;
 
+// palette keys, each exposed as a --color-* variable and usable as data-color
+
+export const PALETTE_COLOR_KEYS = ['red', 'green', 'yellow', 'blue', 'purple', 'cyan', 'orange'] as const;
+
+export type PaletteColorKey = typeof PALETTE_COLOR_KEYS[number];
+
 // gradients
 
 export const GRADIENTS = {
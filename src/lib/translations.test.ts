@@ -0,0 +1,49 @@
+/**
+ * Translated post routing tests
+ */
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { BlogPost } from './getPosts';
+import type { Locale } from './i18n/locales';
+import { getAlternateLinks, getPostPath, getPostSlug, getTranslations } from './translations';
+
+function entry(id: string, lang: Locale, translationOf?: string): BlogPost {
+  return {
+    id,
+    collection: 'blog',
+    data: { lang, ...(translationOf && { translationOf: { id: translationOf, collection: 'blog' } }) },
+  } as BlogPost;
+}
+
+const ORIGINAL = entry('2026-03-30-composition', 'en');
+const TRANSLATION = entry('tr/2026-03-30-composition', 'tr', ORIGINAL.id);
+const OTHER = entry('2026-04-05-other', 'en');
+const POSTS = [ORIGINAL, TRANSLATION, OTHER];
+
+describe('post routes', () => {
+  it('drops the language directory from translated slugs', () => {
+    assert.equal(getPostSlug(ORIGINAL), '2026-03-30-composition');
+    assert.equal(getPostSlug(TRANSLATION), '2026-03-30-composition');
+  });
+
+  it('prefixes translated paths with their locale', () => {
+    assert.equal(getPostPath(ORIGINAL), '/blog/2026-03-30-composition');
+    assert.equal(getPostPath(TRANSLATION), '/tr/blog/2026-03-30-composition');
+  });
+});
+
+describe('translations', () => {
+  it('links an original and its translations both ways', () => {
+    assert.deepEqual(getTranslations(ORIGINAL, POSTS), [TRANSLATION]);
+    assert.deepEqual(getTranslations(TRANSLATION, POSTS), [ORIGINAL]);
+    assert.deepEqual(getTranslations(OTHER, POSTS), []);
+  });
+
+  it('builds hreflang alternates with the current post first', () => {
+    assert.deepEqual(getAlternateLinks(TRANSLATION, getTranslations(TRANSLATION, POSTS)), [
+      { locale: 'tr', href: '/tr/blog/2026-03-30-composition' },
+      { locale: 'en', href: '/blog/2026-03-30-composition' },
+    ]);
+  });
+});
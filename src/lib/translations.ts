@@ -0,0 +1,48 @@
+/**
+ * Translated posts
+ * Default-locale posts live at the root of the blog collection; translations live in
+ * blog/<lang>/ and point back at their original via `translationOf`
+ */
+
+import type { BlogPost } from './getPosts';
+import { DEFAULT_LOCALE, localizePath, type Locale } from './i18n/locales';
+
+export interface AlternateLink {
+  locale: Locale;
+  href: string;
+}
+
+/**
+ * URL slug of a post, without its language directory
+ */
+export function getPostSlug(post: BlogPost): string {
+  const prefix = `${post.data.lang}/`;
+  return post.data.lang !== DEFAULT_LOCALE && post.id.startsWith(prefix)
+    ? post.id.slice(prefix.length)
+    : post.id;
+}
+
+export function getPostPath(post: BlogPost): string {
+  return localizePath(`/blog/${getPostSlug(post)}`, post.data.lang);
+}
+
+/**
+ * Other language versions of a post: its original plus every translation of that original
+ */
+export function getTranslations(post: BlogPost, allPosts: BlogPost[]): BlogPost[] {
+  const originalId = post.data.translationOf?.id ?? post.id;
+  return allPosts.filter(other =>
+    other.id !== post.id &&
+    (other.id === originalId || other.data.translationOf?.id === originalId)
+  );
+}
+
+/**
+ * hreflang links for a post and its translations
+ */
+export function getAlternateLinks(post: BlogPost, translations: BlogPost[]): AlternateLink[] {
+  return [post, ...translations].map(entry => ({
+    locale: entry.data.lang,
+    href: getPostPath(entry),
+  }));
+}
@@ -0,0 +1,152 @@
+/**
+ * Week digests
+ * One page per week that merges every project's post: each "Week at a Glance",
+ * the combined taxonomy and links to the neighbouring weeks
+ */
+
+import { getPosts, type BlogPost } from './getPosts';
+import { getProjects } from './projects';
+import { slugifyTerm } from './taxonomy';
+import { addWeekInfo, getWeekKey, getWeekStart } from './weekGrouping';
+import type { AlternateLink } from './translations';
+import { LOCALE_CODES, localizePath, type Locale } from './i18n/locales';
+
+export interface WeekDigestEntry {
+  post: BlogPost;
+  /** Bullet items of the post's "Week at a Glance" section, as inline markdown */
+  glance: string[];
+}
+
+export interface WeekDigest {
+  /** ISO week key, e.g. "2026-W02" */
+  weekKey: string;
+  label: string;
+  /** Posts in project order */
+  entries: WeekDigestEntry[];
+  languages: string[];
+  patterns: string[];
+  architectures: string[];
+}
+
+const GLANCE_HEADING = /^##\s+Week at a Glance\s*$/im;
+const BULLET = /^\s*[-*+]\s+(.*)$/;
+
+export function getWeekPath(weekKey: string, locale: Locale): string {
+  return localizePath(`/weeks/${weekKey}`, locale);
+}
+
+/**
+ * Digest page of the week a post was published in
+ */
+export function getPostWeekPath(post: BlogPost): string {
+  return getWeekPath(getWeekKey(getWeekStart(post.data.date)), post.data.lang);
+}
+
+/**
+ * Top-level bullets under the "Week at a Glance" heading, up to the next heading
+ */
+export function extractWeekAtAGlance(markdown: string = ''): string[] {
+  const match = markdown.match(GLANCE_HEADING);
+  if (!match) return [];
+
+  const section = markdown.slice((match.index ?? 0) + match[0].length).split(/^#{1,2}\s/m)[0];
+  return section
+    .split('\n')
+    .filter(line => !/^\s{2,}/.test(line))
+    .map(line => line.match(BULLET)?.[1].trim())
+    .filter((item): item is string => !!item);
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Glance bullets only use code spans, bold and emphasis, so a full markdown pass isn't needed
+ */
+export function renderInlineMarkdown(text: string): string {
+  return text
+    .split(/(`[^`]+`)/)
+    .map(part => part.startsWith('`') && part.endsWith('`') && part.length > 1
+      ? `<code>${escapeHtml(part.slice(1, -1))}</code>`
+      : escapeHtml(part)
+        .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
+        .replace(/(^|[^*\w])\*([^*]+)\*(?!\w)/g, '$1<em>$2</em>'))
+    .join('');
+}
+
+/**
+ * Union of the posts' terms; spellings that slugify alike are listed once
+ */
+function mergeTerms(posts: BlogPost[], taxonomy: 'languages' | 'patterns' | 'architectures'): string[] {
+  const terms = new Map<string, string>();
+  for (const post of posts) {
+    for (const term of post.data[taxonomy]) {
+      const slug = slugifyTerm(term);
+      if (slug && !terms.has(slug)) terms.set(slug, term);
+    }
+  }
+  return [...terms.values()];
+}
+
+/**
+ * Group posts into week digests, newest week first
+ * `projectOrder` lists project ids in display order; posts without a project go last.
+ */
+export function collectWeekDigests(posts: BlogPost[], locale: Locale, projectOrder: string[] = []): WeekDigest[] {
+  const weeks = new Map<string, { label: string; posts: BlogPost[] }>();
+  for (const { post, weekKey, weekLabel } of addWeekInfo(posts, locale)) {
+    let week = weeks.get(weekKey);
+    if (!week) {
+      week = { label: weekLabel, posts: [] };
+      weeks.set(weekKey, week);
+    }
+    week.posts.push(post);
+  }
+
+  const rank = (post: BlogPost) => {
+    const index = post.data.project ? projectOrder.indexOf(post.data.project.id) : -1;
+    return index === -1 ? projectOrder.length : index;
+  };
+
+  return [...weeks.entries()]
+    .sort(([a], [b]) => b.localeCompare(a))
+    .map(([weekKey, { label, posts: weekPosts }]) => {
+      const ordered = [...weekPosts].sort((a, b) => rank(a) - rank(b) || a.data.date.valueOf() - b.data.date.valueOf());
+      return {
+        weekKey,
+        label,
+        entries: ordered.map(post => ({ post, glance: extractWeekAtAGlance(post.body) })),
+        languages: mergeTerms(ordered, 'languages'),
+        patterns: mergeTerms(ordered, 'patterns'),
+        architectures: mergeTerms(ordered, 'architectures'),
+      };
+    });
+}
+
+/**
+ * Routes for /weeks/[weekKey] and /[lang]/weeks/[weekKey]
+ */
+export async function getWeekDigestPaths(lang: Locale) {
+  const projectOrder = (await getProjects()).map(project => project.id);
+  const digestsByLocale = new Map(await Promise.all(LOCALE_CODES.map(async locale =>
+    [locale, collectWeekDigests((await getPosts(undefined, locale)).posts, locale, projectOrder)] as const
+  )));
+  const digests = digestsByLocale.get(lang) ?? [];
+
+  return digests.map((digest, index) => {
+    const alternates: AlternateLink[] = LOCALE_CODES
+      .filter(locale => digestsByLocale.get(locale)?.some(other => other.weekKey === digest.weekKey))
+      .map(locale => ({ locale, href: getWeekPath(digest.weekKey, locale) }));
+
+    return {
+      params: { weekKey: digest.weekKey },
+      props: {
+        digest,
+        prevWeek: digests[index + 1] ?? null,
+        nextWeek: digests[index - 1] ?? null,
+        alternates,
+      },
+    };
+  });
+}
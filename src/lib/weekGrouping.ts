@@ -1,38 +1,124 @@
+/**
+ * Week grouping
+ * Week boundaries are computed in WEEKS.timeZone, never the build machine's zone.
+ * Week starts are returned as UTC-midnight Dates that stand for a calendar day,
+ * so read them with getUTC* methods and format them with timeZone: 'UTC'.
+ */
+
+import { WEEKS } from './constants';
+import { LOCALES, DEFAULT_LOCALE, type Locale } from './i18n/locales';
+
 export interface PostWithWeek<T> {
   post: T;
+  /** ISO week key, e.g. "2026-W19" */
   weekKey: string;
   weekLabel: string;
 }
 
-export function getWeekStart(date: Date): Date {
-  const d = new Date(date);
-  const day = d.getDay();
-  const diff = d.getDate() - day + (day === 0 ? -6 : 1);
-  d.setDate(diff);
-  d.setHours(0, 0, 0, 0);
-  return d;
+export interface WeekOptions {
+  timeZone?: string;
+  startsOn?: 0 | 1;
+}
+
+export interface IsoWeek {
+  year: number;
+  week: number;
+}
+
+const DAY_MS = 86_400_000;
+
+const dayFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Calendar day `date` falls on in the given zone, as a UTC-midnight Date
+ */
+export function getCalendarDay(date: Date, timeZone: string = WEEKS.timeZone): Date {
+  let formatter = dayFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', { timeZone, year: 'numeric', month: 'numeric', day: 'numeric' });
+    dayFormatters.set(timeZone, formatter);
+  }
+
+  const parts = Object.fromEntries(formatter.formatToParts(date).map(part => [part.type, part.value]));
+  return new Date(Date.UTC(Number(parts.year), Number(parts.month) - 1, Number(parts.day)));
+}
+
+/**
+ * Shift a calendar day (UTC midnight, so no DST to trip over)
+ */
+export function addDays(day: Date, days: number): Date {
+  return new Date(day.valueOf() + days * DAY_MS);
+}
+
+/**
+ * First day of the week containing a calendar day
+ */
+export function getCalendarWeekStart(day: Date, startsOn: 0 | 1 = WEEKS.startsOn): Date {
+  return addDays(day, -((day.getUTCDay() - startsOn + 7) % 7));
+}
+
+export function getWeekStart(date: Date, { timeZone = WEEKS.timeZone, startsOn = WEEKS.startsOn }: WeekOptions = {}): Date {
+  return getCalendarWeekStart(getCalendarDay(date, timeZone), startsOn);
+}
+
+/**
+ * ISO 8601 week of a calendar day: weeks run Monday–Sunday and week 1 holds the year's first Thursday
+ */
+export function getIsoWeek(day: Date): IsoWeek {
+  const thursday = addDays(day, 3 - ((day.getUTCDay() + 6) % 7));
+  const year = thursday.getUTCFullYear();
+  const week = Math.floor((thursday.valueOf() - Date.UTC(year, 0, 1)) / (7 * DAY_MS)) + 1;
+  return { year, week };
+}
+
+// Sunday-start weeks take the ISO week of their Monday
+function getIsoWeekOfWeekStart(start: Date): IsoWeek {
+  return getIsoWeek(start.getUTCDay() === 0 ? addDays(start, 1) : start);
 }
 
 /**
- * Format a week range string (e.g., "Jan 6 — Jan 12, 2025")
+ * Stable key for the week starting at `start` (e.g. "2026-W19")
  */
-export function formatWeekRange(start: Date): string {
-  const end = new Date(start);
-  end.setDate(end.getDate() + 6);
-  const startStr = start.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
-  const endStr = end.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+export function getWeekKey(start: Date): string {
+  const { year, week } = getIsoWeekOfWeekStart(start);
+  return `${year}-W${String(week).padStart(2, '0')}`;
+}
+
+/**
+ * Format a range of calendar days (e.g., "Jan 6 — Jan 26, 2025")
+ */
+export function formatDayRange(start: Date, end: Date, locale: Locale = DEFAULT_LOCALE): string {
+  const { dateLocale } = LOCALES[locale];
+  const startStr = start.toLocaleDateString(dateLocale, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+  const endStr = end.toLocaleDateString(dateLocale, { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
   return `${startStr} — ${endStr}`;
 }
 
+/**
+ * Format a week range string (e.g., "Jan 6 — Jan 12, 2025", or "W02 · Jan 6 — Jan 12, 2025")
+ */
+export function formatWeekRange(
+  start: Date,
+  { weekNumber = WEEKS.showWeekNumber, locale = DEFAULT_LOCALE }: { weekNumber?: boolean; locale?: Locale } = {}
+): string {
+  const range = formatDayRange(start, addDays(start, 6), locale);
+
+  if (!weekNumber) return range;
+  return `W${String(getIsoWeekOfWeekStart(start).week).padStart(2, '0')} · ${range}`;
+}
+
 /**
  * Add week grouping info to posts
  */
-export function addWeekInfo<T extends { data: { date: Date } }>(posts: T[]): PostWithWeek<T>[] {
-  return posts.map(post => ({
-    post,
-    weekKey: getWeekStart(post.data.date).toISOString(),
-    weekLabel: formatWeekRange(getWeekStart(post.data.date))
-  }));
+export function addWeekInfo<T extends { data: { date: Date } }>(posts: T[], locale: Locale = DEFAULT_LOCALE): PostWithWeek<T>[] {
+  return posts.map(post => {
+    const start = getWeekStart(post.data.date);
+    return {
+      post,
+      weekKey: getWeekKey(start),
+      weekLabel: formatWeekRange(start, { locale }),
+    };
+  });
 }
 
 /**
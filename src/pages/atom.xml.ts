@@ -0,0 +1,4 @@
+import type { APIRoute } from 'astro';
+import { getFeed, atomResponse } from '../lib/feeds';
+
+export const GET: APIRoute = async ({ site }) => atomResponse(await getFeed(), site!);
@@ -0,0 +1,4 @@
+import type { APIRoute } from 'astro';
+import { getFeed, jsonFeedResponse } from '../lib/feeds';
+
+export const GET: APIRoute = async ({ site }) => jsonFeedResponse(await getFeed(), site!);
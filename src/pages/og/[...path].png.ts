@@ -0,0 +1,31 @@
+import type { APIRoute, GetStaticPaths } from 'astro';
+import { getCollection } from 'astro:content';
+import { getPosts } from '../../lib/getPosts';
+import { getProjectMap } from '../../lib/projects';
+import { hasPage } from '../../lib/publishing';
+import { getPostPath } from '../../lib/translations';
+import { getPostOgCard, getProjectOgCard, renderOgImage, type OgCard } from '../../lib/ogImage';
+
+// One card per post page (any language, previews included) and per project page
+export const getStaticPaths = (async () => {
+  const projects = await getProjectMap();
+  const posts = (await getCollection('blog')).filter(hasPage);
+  // getOgImagePath(pagePath) is /og<pagePath>.png
+  const toParams = (pagePath: string) => ({ path: pagePath.replace(/^\//, '') });
+
+  const postPaths = posts.map(post => ({
+    params: toParams(getPostPath(post)),
+    props: { card: getPostOgCard(post, post.data.project ? projects.get(post.data.project.id) : undefined) },
+  }));
+  const projectPaths = await Promise.all([...projects.values()].map(async project => ({
+    params: toParams(`/projects/${project.id}`),
+    props: { card: getProjectOgCard(project, (await getPosts(project.id)).posts.length) },
+  })));
+
+  return [...postPaths, ...projectPaths];
+}) satisfies GetStaticPaths;
+
+export const GET: APIRoute<{ card: OgCard }> = async ({ props }) =>
+  new Response(await renderOgImage(props.card), {
+    headers: { 'Content-Type': 'image/png' },
+  });
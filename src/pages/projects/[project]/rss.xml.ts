@@ -0,0 +1,9 @@
+import type { APIRoute, GetStaticPaths } from 'astro';
+import { getProjects } from '../../../lib/projects';
+import { getFeed, rssResponse } from '../../../lib/feeds';
+
+export const getStaticPaths: GetStaticPaths = async () =>
+  (await getProjects()).map(project => ({ params: { project: project.id } }));
+
+export const GET: APIRoute = async ({ params, site }) =>
+  rssResponse(await getFeed(params.project), site!);
@@ -0,0 +1,18 @@
+import type { APIRoute } from 'astro';
+import { PREVIEW_MODE } from '../lib/publishing';
+import { SITEMAP_FILE } from '../lib/constants';
+
+// Preview builds render drafts, so they stay out of search engines entirely
+export const GET: APIRoute = ({ site }) => {
+  const lines = [
+    'User-agent: *',
+    PREVIEW_MODE ? 'Disallow: /' : 'Allow: /',
+    '',
+    `Sitemap: ${new URL(SITEMAP_FILE, site).href}`,
+    '',
+  ];
+
+  return new Response(lines.join('\n'), {
+    headers: { 'Content-Type': 'text/plain; charset=utf-8' },
+  });
+};
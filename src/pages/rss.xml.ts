@@ -0,0 +1,4 @@
+import type { APIRoute } from 'astro';
+import { getFeed, rssResponse } from '../lib/feeds';
+
+export const GET: APIRoute = async ({ site }) => rssResponse(await getFeed(), site!);
@@ -0,0 +1,11 @@
+import type { APIRoute } from 'astro';
+import { getPosts } from '../lib/getPosts';
+import { buildSearchIndex } from '../lib/searchIndex';
+
+export const GET: APIRoute = async () => {
+  const { posts, postsWithIndicators } = await getPosts();
+
+  return new Response(JSON.stringify(buildSearchIndex(posts, postsWithIndicators)), {
+    headers: { 'Content-Type': 'application/json; charset=utf-8' },
+  });
+};